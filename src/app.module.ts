@@ -5,11 +5,20 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { FilesModule } from './files/files.module';
 import { FileEntity } from './files/entities/file.entity';
+import { IngestJobEntity } from './files/entities/ingest-job.entity';
+import { IngestBatchEntity } from './files/entities/ingest-batch.entity';
+import { PendingUploadEntity } from './files/entities/pending-upload.entity';
+import { ResumableUploadEntity } from './files/entities/resumable-upload.entity';
 import { UserEntity } from './users/entities/user.entity';
 import { UsersModule } from './users/users.module';
 import { AuthModule } from './auth/auth.module';
 import { NotificationsModule } from './notifications/notifications.module';
 import { NotificationEntity } from './notifications/entities/notification.entity';
+import { CollectionsModule } from './collections/collections.module';
+import { CollectionEntity } from './collections/entities/collection.entity';
+import { CollectionItemEntity } from './collections/entities/collection-item.entity';
+import { SharesModule } from './shares/shares.module';
+import { ShareEntity } from './shares/entities/share.entity';
 
 @Module({
 	imports: [
@@ -25,7 +34,7 @@ import { NotificationEntity } from './notifications/entities/notification.entity
 				username: configService.get('DATABASE_USERNAME'),
 				password: configService.get('DATABASE_PASSWORD'),
 				database: configService.get('DATABASE_NAME'),
-				entities: [FileEntity, UserEntity, NotificationEntity],
+				entities: [FileEntity, IngestJobEntity, IngestBatchEntity, PendingUploadEntity, ResumableUploadEntity, UserEntity, NotificationEntity, CollectionEntity, CollectionItemEntity, ShareEntity],
 				synchronize: configService.get('NODE_ENV') === 'development', // Only for development
 				logging: configService.get('NODE_ENV') === 'development',
 				name: 'default', // Explicitly set connection name to avoid crypto.randomUUID issue
@@ -35,6 +44,8 @@ import { NotificationEntity } from './notifications/entities/notification.entity
 		AuthModule,
 		FilesModule,
 		NotificationsModule,
+		CollectionsModule,
+		SharesModule,
 	],
 	controllers: [AppController],
 	providers: [AppService],
@@ -0,0 +1,97 @@
+import { Controller, Get, Post, Patch, Put, Delete, Param, Body, HttpException, HttpStatus, UseGuards, Request } from '@nestjs/common';
+import { CollectionsService } from './collections.service';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every((s) => typeof s === 'string');
+
+@Controller('collections')
+@UseGuards(JwtAuthGuard)
+export class CollectionsController {
+  constructor(private readonly collections: CollectionsService) {}
+
+  @Get()
+  async list(@Request() req: any) {
+    try {
+      return await this.collections.listCollections(req.user.userId);
+    } catch (e) {
+      throw new HttpException('Failed to list collections', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Post()
+  async create(@Body() body: { name: string; description?: string | null; coverFileId?: string | null; fileIds?: string[] }, @Request() req: any) {
+    if (body?.fileIds !== undefined && !isStringArray(body.fileIds)) throw new HttpException('fileIds must be an array of strings', HttpStatus.BAD_REQUEST);
+    try {
+      return await this.collections.createCollection(req.user.userId, body ?? {});
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException('Failed to create collection', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string, @Request() req: any) {
+    try {
+      return await this.collections.getCollection(id, req.user.userId);
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException('Failed to retrieve collection', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Patch(':id')
+  async update(@Param('id') id: string, @Body() body: { name?: string; description?: string | null; coverFileId?: string | null }, @Request() req: any) {
+    try {
+      return await this.collections.updateCollection(id, req.user.userId, { name: body?.name, description: body?.description, coverFileId: body?.coverFileId });
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException('Failed to update collection', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Delete(':id')
+  async remove(@Param('id') id: string, @Request() req: any) {
+    try {
+      await this.collections.deleteCollection(id, req.user.userId);
+      return { message: 'Collection deleted' };
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException('Failed to delete collection', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  // { fileIds, position? }: inserts at position, or appends when it is omitted
+  @Post(':id/items')
+  async addItems(@Param('id') id: string, @Body() body: { fileIds: string[]; position?: number }, @Request() req: any) {
+    if (!isStringArray(body?.fileIds) || body.fileIds.length === 0) throw new HttpException('fileIds must be a non-empty array of strings', HttpStatus.BAD_REQUEST);
+    if (body.position !== undefined && !Number.isInteger(body.position)) throw new HttpException('position must be an integer', HttpStatus.BAD_REQUEST);
+    try {
+      return await this.collections.addItems(id, req.user.userId, body.fileIds, body.position);
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException('Failed to add files to collection', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Delete(':id/items/:fileId')
+  async removeItem(@Param('id') id: string, @Param('fileId') fileId: string, @Request() req: any) {
+    try {
+      return await this.collections.removeItem(id, req.user.userId, fileId);
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException('Failed to remove file from collection', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  // { fileIds }: every member, in the new order
+  @Put(':id/order')
+  async reorder(@Param('id') id: string, @Body() body: { fileIds: string[] }, @Request() req: any) {
+    if (!isStringArray(body?.fileIds)) throw new HttpException('fileIds must be an array of strings', HttpStatus.BAD_REQUEST);
+    try {
+      return await this.collections.reorderItems(id, req.user.userId, body.fileIds);
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException('Failed to reorder collection', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CollectionsController } from './collections.controller';
+import { CollectionsService } from './collections.service';
+import { CollectionEntity } from './entities/collection.entity';
+import { CollectionItemEntity } from './entities/collection-item.entity';
+import { FileEntity } from '../files/entities/file.entity';
+import { FilesModule } from '../files/files.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([CollectionEntity, CollectionItemEntity, FileEntity]), FilesModule],
+  controllers: [CollectionsController],
+  providers: [CollectionsService],
+})
+export class CollectionsModule {}
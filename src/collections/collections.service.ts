@@ -0,0 +1,210 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { CollectionEntity } from './entities/collection.entity';
+import { CollectionItemEntity } from './entities/collection-item.entity';
+import { FileEntity } from '../files/entities/file.entity';
+import { FilesService, FileRecord } from '../files/files.service';
+
+export interface CollectionSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  coverFileId: string | null;
+  itemCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CollectionDetail extends CollectionSummary {
+  // The chosen cover, or the first item when none is set
+  cover: FileRecord | null;
+  items: FileRecord[];
+}
+
+export interface CollectionInput {
+  name?: string;
+  description?: string | null;
+  coverFileId?: string | null;
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+@Injectable()
+export class CollectionsService {
+  private static readonly MAX_NAME_LENGTH = 200;
+  private static readonly MAX_FILES_PER_REQUEST = 500;
+
+  constructor(
+    @InjectRepository(CollectionEntity)
+    private readonly collectionRepository: Repository<CollectionEntity>,
+    @InjectRepository(CollectionItemEntity)
+    private readonly itemRepository: Repository<CollectionItemEntity>,
+    @InjectRepository(FileEntity)
+    private readonly fileRepository: Repository<FileEntity>,
+    private readonly filesService: FilesService,
+  ) {}
+
+  async listCollections(ownerId: string): Promise<CollectionSummary[]> {
+    const collections = await this.collectionRepository.find({ where: { ownerId }, order: { updatedAt: 'DESC' } });
+    if (collections.length === 0) return [];
+    const counts: Array<{ collectionId: string; count: number }> = await this.itemRepository.createQueryBuilder('item')
+      .select('"item"."collectionId"', 'collectionId')
+      .addSelect('COUNT(*)::int', 'count')
+      // Trashed files stay members but aren't shown or counted
+      .innerJoin('item.file', 'file', '"file"."deletedAt" IS NULL')
+      .where('"item"."collectionId" IN (:...ids)', { ids: collections.map((c) => c.id) })
+      .groupBy('"item"."collectionId"')
+      .getRawMany();
+    const byId = new Map(counts.map((c) => [c.collectionId, Number(c.count)]));
+    return collections.map((c) => this.toSummary(c, byId.get(c.id) ?? 0));
+  }
+
+  async getCollection(id: string, ownerId: string): Promise<CollectionDetail> {
+    const collection = await this.findOwned(id, ownerId);
+    const items = await this.itemRepository.find({ where: { collectionId: id }, relations: { file: true }, order: { position: 'ASC' } });
+    const files = items.map((i) => i.file).filter((f): f is FileEntity => !!f);
+    const records = await Promise.all(files.map((file) => this.filesService.toSignedRecord(file)));
+    let cover = records[0] ?? null;
+    if (collection.coverFileId) {
+      // The cover doesn't have to be a member of the collection
+      const member = records.find((r) => r.id === collection.coverFileId);
+      const coverFile = member ? null : await this.fileRepository.findOne({ where: { id: collection.coverFileId, ownerId } });
+      cover = member ?? (coverFile ? await this.filesService.toSignedRecord(coverFile) : cover);
+    }
+    return { ...this.toSummary(collection, records.length), cover, items: records };
+  }
+
+  async createCollection(ownerId: string, input: CollectionInput & { fileIds?: string[] }): Promise<CollectionDetail> {
+    const name = this.validateName(input.name);
+    if (input.coverFileId) await this.assertOwnedFiles(ownerId, [input.coverFileId]);
+    const fileIds = [...new Set(input.fileIds ?? [])];
+    await this.assertOwnedFiles(ownerId, fileIds);
+    const collection = await this.collectionRepository.manager.transaction(async (em) => {
+      const saved = await em.save(em.create(CollectionEntity, {
+        ownerId,
+        name,
+        description: input.description?.trim() || null,
+        coverFileId: input.coverFileId || null,
+      }));
+      if (fileIds.length) await em.insert(CollectionItemEntity, fileIds.map((fileId, position) => ({ collectionId: saved.id, fileId, position })));
+      return saved;
+    });
+    return await this.getCollection(collection.id, ownerId);
+  }
+
+  async updateCollection(id: string, ownerId: string, input: CollectionInput): Promise<CollectionDetail> {
+    await this.findOwned(id, ownerId);
+    const patch: Partial<CollectionEntity> = {};
+    if (input.name !== undefined) patch.name = this.validateName(input.name);
+    if (input.description !== undefined) patch.description = input.description?.trim() || null;
+    if (input.coverFileId !== undefined) {
+      if (input.coverFileId) await this.assertOwnedFiles(ownerId, [input.coverFileId]);
+      patch.coverFileId = input.coverFileId || null;
+    }
+    if (Object.keys(patch).length) await this.collectionRepository.update(id, patch);
+    return await this.getCollection(id, ownerId);
+  }
+
+  // Deleting a collection leaves its files alone
+  async deleteCollection(id: string, ownerId: string): Promise<void> {
+    await this.findOwned(id, ownerId);
+    await this.collectionRepository.delete(id);
+  }
+
+  // Inserts files at position (default: the end); files already in the collection stay where they are
+  async addItems(id: string, ownerId: string, fileIds: string[], position?: number): Promise<CollectionDetail> {
+    await this.findOwned(id, ownerId);
+    await this.assertOwnedFiles(ownerId, fileIds);
+    await this.withLockedOrder(id, async (em, order, trashed) => {
+      const present = new Set(order);
+      const added = [...new Set(fileIds)].filter((f) => !present.has(f));
+      if (added.length === 0) return null;
+      // position counts visible members only, so insert before whichever one is there now
+      const before = position !== undefined ? order.filter((f) => !trashed.has(f))[Math.max(position, 0)] : undefined;
+      const at = before ? order.indexOf(before) : order.length;
+      await em.insert(CollectionItemEntity, added.map((fileId) => ({ collectionId: id, fileId, position: 0 })));
+      return [...order.slice(0, at), ...added, ...order.slice(at)];
+    });
+    return await this.getCollection(id, ownerId);
+  }
+
+  async removeItem(id: string, ownerId: string, fileId: string): Promise<CollectionDetail> {
+    await this.findOwned(id, ownerId);
+    await this.withLockedOrder(id, async (em, order) => {
+      if (!order.includes(fileId)) throw new HttpException('File is not in this collection', HttpStatus.NOT_FOUND);
+      await em.delete(CollectionItemEntity, { collectionId: id, fileId });
+      return order.filter((f) => f !== fileId);
+    });
+    return await this.getCollection(id, ownerId);
+  }
+
+  // fileIds must list every visible member exactly once, in the new order; trashed members move to the end
+  async reorderItems(id: string, ownerId: string, fileIds: string[]): Promise<CollectionDetail> {
+    await this.findOwned(id, ownerId);
+    await this.withLockedOrder(id, async (_em, order, trashed) => {
+      const visible = order.filter((f) => !trashed.has(f));
+      const members = new Set(visible);
+      if (fileIds.length !== visible.length || new Set(fileIds).size !== fileIds.length || fileIds.some((f) => !members.has(f))) {
+        throw new HttpException('fileIds must contain every file in the collection exactly once', HttpStatus.BAD_REQUEST);
+      }
+      return [...fileIds, ...order.filter((f) => trashed.has(f))];
+    });
+    return await this.getCollection(id, ownerId);
+  }
+
+  // Runs a membership change with the collection row locked, then rewrites positions to match the returned order
+  private async withLockedOrder(id: string, change: (em: EntityManager, order: string[], trashed: Set<string>) => Promise<string[] | null>): Promise<void> {
+    await this.collectionRepository.manager.transaction(async (em) => {
+      await em.findOne(CollectionEntity, { where: { id }, lock: { mode: 'pessimistic_write' } });
+      // Trashed files don't join, which leaves their item without a file
+      const items = await em.find(CollectionItemEntity, { where: { collectionId: id }, relations: { file: true }, order: { position: 'ASC' } });
+      const trashed = new Set(items.filter((i) => !i.file).map((i) => i.fileId));
+      const order = await change(em, items.map((i) => i.fileId), trashed);
+      if (!order) return;
+      await em.query(
+        `UPDATE "collection_items" ci SET "position" = o.pos - 1
+         FROM unnest($2::uuid[]) WITH ORDINALITY AS o(file_id, pos)
+         WHERE ci."collectionId" = $1 AND ci."fileId" = o.file_id`,
+        [id, order],
+      );
+      await em.update(CollectionEntity, id, { updatedAt: new Date() });
+    });
+  }
+
+  private async findOwned(id: string, ownerId: string): Promise<CollectionEntity> {
+    const collection = UUID.test(id) ? await this.collectionRepository.findOne({ where: { id, ownerId } }) : null;
+    if (!collection) throw new HttpException('Collection not found', HttpStatus.NOT_FOUND);
+    return collection;
+  }
+
+  private async assertOwnedFiles(ownerId: string, fileIds: string[]): Promise<void> {
+    if (fileIds.length > CollectionsService.MAX_FILES_PER_REQUEST) {
+      throw new HttpException(`At most ${CollectionsService.MAX_FILES_PER_REQUEST} files per request`, HttpStatus.BAD_REQUEST);
+    }
+    const ids = [...new Set(fileIds)];
+    if (ids.some((f) => !UUID.test(f))) throw new HttpException('File not found', HttpStatus.NOT_FOUND);
+    if (ids.length === 0) return;
+    const found = await this.fileRepository.count({ where: { id: In(ids), ownerId } });
+    if (found !== ids.length) throw new HttpException('File not found', HttpStatus.NOT_FOUND);
+  }
+
+  private validateName(name?: string): string {
+    const trimmed = (name ?? '').trim();
+    if (!trimmed) throw new HttpException('name is required', HttpStatus.BAD_REQUEST);
+    if (trimmed.length > CollectionsService.MAX_NAME_LENGTH) throw new HttpException('name is too long', HttpStatus.BAD_REQUEST);
+    return trimmed;
+  }
+
+  private toSummary(collection: CollectionEntity, itemCount: number): CollectionSummary {
+    return {
+      id: collection.id,
+      name: collection.name,
+      description: collection.description ?? null,
+      coverFileId: collection.coverFileId ?? null,
+      itemCount,
+      createdAt: collection.createdAt.toISOString(),
+      updatedAt: collection.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { CollectionEntity } from './collection.entity';
+import { FileEntity } from '../../files/entities/file.entity';
+
+// Membership of a file in a collection; positions run 0..n-1 and are rewritten on every reorder
+@Entity('collection_items')
+@Index(['collectionId', 'position'])
+export class CollectionItemEntity {
+  @PrimaryColumn('uuid')
+  collectionId: string;
+
+  @Index()
+  @PrimaryColumn('uuid')
+  fileId: string;
+
+  @ManyToOne(() => CollectionEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'collectionId' })
+  collection?: CollectionEntity;
+
+  @ManyToOne(() => FileEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'fileId' })
+  file?: FileEntity;
+
+  @Column({ type: 'int' })
+  position: number;
+
+  @CreateDateColumn()
+  addedAt: Date;
+}
@@ -0,0 +1,38 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+import { FileEntity } from '../../files/entities/file.entity';
+
+// A named, manually ordered set of files; membership and order live in CollectionItemEntity
+@Entity('collections')
+export class CollectionEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'ownerId' })
+  owner?: UserEntity;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  ownerId: string;
+
+  @Column({ type: 'text' })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string | null;
+
+  @ManyToOne(() => FileEntity, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'coverFileId' })
+  coverFile?: FileEntity | null;
+
+  // Falls back to the first item when unset
+  @Column({ type: 'uuid', nullable: true })
+  coverFileId?: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -1,7 +1,10 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { HASH_BITS_TRANSFORMER } from '../similarity/perceptual-hash';
 import { UserEntity } from '../../users/entities/user.entity';
 
 @Entity('files')
+// Backs the default newest-first listing
+@Index(['ownerId', 'uploadedAt'])
 export class FileEntity {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -30,6 +33,10 @@ export class FileEntity {
   @Column({ nullable: true })
   sourceUrl?: string;
 
+  // Position within a multi-item source such as a gallery, album or tweet; null for single-item sources
+  @Column({ type: 'int', nullable: true })
+  sourceIndex?: number | null;
+
   @Column({ type: 'text', array: true, nullable: true })
   tags?: string[];
 
@@ -54,6 +61,19 @@ export class FileEntity {
   @Column({ type: 'text', nullable: true })
   audioFingerprint?: string | null;
 
+  // 64-bit pHash and dHash of still images and GIF first frames, for near-duplicate detection. Hex in code,
+  // bit(64) in the database so Hamming distances are computed there
+  @Column({ type: 'bit', length: 64, nullable: true, transformer: HASH_BITS_TRANSFORMER })
+  perceptualHash?: string | null;
+
+  @Column({ type: 'bit', length: 64, nullable: true, transformer: HASH_BITS_TRANSFORMER })
+  differenceHash?: string | null;
+
+  // Weighted title, tags, filename and source URL; maintained by FilesService, which also creates the GIN index
+  @Index('IDX_files_search_vector', { synchronize: false })
+  @Column({ type: 'tsvector', nullable: true, select: false })
+  searchVector?: string | null;
+
   @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'ownerId' })
   owner?: UserEntity;
@@ -67,10 +87,42 @@ export class FileEntity {
   @UpdateDateColumn()
   updatedAt: Date;
 
+  // Set while the file is in the trash; find() and query builders skip these rows unless withDeleted is used
+  @Index()
+  @DeleteDateColumn()
+  deletedAt?: Date | null;
+
   // Transcoding fields
   @Column({ type: 'text', nullable: true })
   mp4Key?: string | null;
 
   @Column({ type: 'text', nullable: true })
   transcodeStatus?: 'pending' | 'processing' | 'ready' | 'failed' | null;
+
+  // 0-100 while processing
+  @Column({ type: 'int', nullable: true })
+  transcodeProgress?: number | null;
+
+  // Why the last attempt failed, cleared when a new one starts
+  @Column({ type: 'text', nullable: true })
+  transcodeError?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  transcodeProfile?: string | null;
+
+  // When the current MP4 rendition was written; it is replaced in place, so this versions it
+  @Column({ type: 'timestamptz', nullable: true })
+  transcodedAt?: Date | null;
+
+  // Seek-preview sprite and WebVTT track, kept at storyboards/<id>.jpg and storyboards/<id>.vtt
+  @Column({ type: 'text', nullable: true })
+  storyboardStatus?: 'pending' | 'processing' | 'ready' | 'failed' | null;
+
+  // Muted hover-preview loop, kept at previews/<id>.mp4
+  @Column({ type: 'text', nullable: true })
+  previewStatus?: 'pending' | 'processing' | 'ready' | 'failed' | null;
+
+  // Adaptive HLS ladder under hls/<id>/; null for files that don't get one
+  @Column({ type: 'text', nullable: true })
+  hlsStatus?: 'processing' | 'ready' | 'failed' | null;
 }
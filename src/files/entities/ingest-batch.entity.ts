@@ -0,0 +1,27 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+export interface IngestBatchItem {
+  url: string;
+  tags?: string[] | null;
+  title?: string | null;
+  jobId?: string | null;
+  // Why the item was not queued: repeated within the batch or already in the user's library
+  skipped?: 'duplicate_in_batch' | 'already_in_library' | null;
+  duplicateOfFileId?: string | null;
+}
+
+@Entity('ingest_batches')
+export class IngestBatchEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  ownerId: string;
+
+  @Column({ type: 'jsonb' })
+  items: IngestBatchItem[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,115 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+export type IngestJobState = 'pending' | 'resolving' | 'downloading' | 'uploading' | 'saving' | 'done' | 'error' | 'cancelled';
+
+export const INGEST_STATES: IngestJobState[] = ['pending', 'resolving', 'downloading', 'uploading', 'saving', 'done', 'error', 'cancelled'];
+
+// States a job can be left in if the process dies while the worker is running
+export const ACTIVE_INGEST_STATES: IngestJobState[] = ['pending', 'resolving', 'downloading', 'uploading', 'saving'];
+export const TERMINAL_INGEST_STATES: IngestJobState[] = ['done', 'error', 'cancelled'];
+
+export interface IngestMediaTrack {
+  type: 'video' | 'audio' | 'muxed';
+  url: string;
+  bandwidth?: number;
+  width?: number;
+  height?: number;
+  codecs?: string;
+  segments?: number;
+}
+
+export interface IngestJobItem {
+  index: number;
+  url: string;
+  fileId?: string | null;
+  duplicateOfFileId?: string | null;
+}
+
+export interface IngestJobDetails {
+  resolver?: string;
+  // Tracks that were downloaded separately and combined into the stored file
+  tracks?: IngestMediaTrack[];
+  // Per-item outcome when the source resolved to several media items
+  items?: IngestJobItem[];
+}
+
+@Entity('ingest_jobs')
+export class IngestJobEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  ownerId: string;
+
+  @Index()
+  @Column({ type: 'text', default: 'pending' })
+  state: IngestJobState;
+
+  @Column({ type: 'bigint', default: 0 })
+  totalBytes: number;
+
+  @Column({ type: 'bigint', default: 0 })
+  downloadedBytes: number;
+
+  @Column({ type: 'bigint', default: 0 })
+  uploadedBytes: number;
+
+  @Column({ type: 'text' })
+  providedUrl: string;
+
+  @Column({ type: 'text', nullable: true })
+  resolvedUrl?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  finalUrl?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  ext?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  mimeType?: string | null;
+
+  // Kept so a re-queued job produces the same file the user asked for
+  @Column({ type: 'text', array: true, nullable: true })
+  tags?: string[] | null;
+
+  @Column({ type: 'text', nullable: true })
+  title?: string | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  batchId?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  error?: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  fileId?: string | null;
+
+  // Every file created by the job, in source order; fileId is the first of these
+  @Column({ type: 'uuid', array: true, nullable: true })
+  fileIds?: string[] | null;
+
+  // Set when the download turned out to be a file the user already has
+  @Column({ type: 'uuid', nullable: true })
+  duplicateOfFileId?: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  details?: IngestJobDetails | null;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  startedAt?: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  finishedAt?: Date | null;
+}
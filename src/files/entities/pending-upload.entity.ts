@@ -0,0 +1,44 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+// A presigned upload the client has not confirmed yet; its id becomes the FileEntity id on completion
+@Entity('pending_uploads')
+export class PendingUploadEntity {
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  ownerId: string;
+
+  @Column({ type: 'text' })
+  key: string;
+
+  @Column({ type: 'text' })
+  originalName: string;
+
+  @Column({ type: 'text' })
+  mimeType: string;
+
+  @Column({ type: 'bigint' })
+  size: number;
+
+  // Set for multipart uploads; single PUTs have no S3 upload id
+  @Column({ type: 'text', nullable: true })
+  uploadId?: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  partSize?: number | null;
+
+  @Column({ type: 'text', array: true, nullable: true })
+  tags?: string[] | null;
+
+  @Column({ type: 'text', nullable: true })
+  title?: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Index()
+  @Column({ type: 'timestamptz' })
+  expiresAt: Date;
+}
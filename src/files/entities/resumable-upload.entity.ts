@@ -0,0 +1,37 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+// Chunked upload in progress; bytes received so far live in a local part file keyed by id
+@Entity('resumable_uploads')
+export class ResumableUploadEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  ownerId: string;
+
+  @Column({ type: 'bigint' })
+  length: number;
+
+  @Column({ type: 'bigint', default: 0 })
+  offset: number;
+
+  @Column({ type: 'text' })
+  originalName: string;
+
+  @Column({ type: 'text', nullable: true })
+  mimeType?: string | null;
+
+  @Column({ type: 'text', array: true, nullable: true })
+  tags?: string[] | null;
+
+  @Column({ type: 'text', nullable: true })
+  title?: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Index()
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,156 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { FileEntity } from './entities/file.entity';
+import { CollectionEntity } from '../collections/entities/collection.entity';
+import { CollectionItemEntity } from '../collections/entities/collection-item.entity';
+import { FilesService, FileFilters } from './files.service';
+import { normalizeTags } from './tags';
+
+export const BULK_ACTIONS = ['delete', 'addTags', 'removeTags', 'setTags', 'setTitlePrefix', 'addToCollection'] as const;
+export type BulkAction = typeof BULK_ACTIONS[number];
+
+export interface BulkRequest {
+  action: BulkAction;
+  // Either explicit ids or a listing filter selects the files
+  ids?: string[];
+  filter?: FileFilters;
+  tags?: string[];
+  prefix?: string;
+  collectionId?: string;
+}
+
+export interface BulkItemResult {
+  id: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface BulkResult {
+  action: BulkAction;
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult[];
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+@Injectable()
+export class FileBulkService {
+  private static readonly MAX_BULK_FILES = 1000;
+
+  constructor(
+    @InjectRepository(FileEntity)
+    private readonly fileRepository: Repository<FileEntity>,
+    @InjectRepository(CollectionEntity)
+    private readonly collectionRepository: Repository<CollectionEntity>,
+    private readonly filesService: FilesService,
+  ) {}
+
+  // Changes for the whole selection commit together; deleted files go to the trash like single deletes
+  async run(ownerId: string, request: BulkRequest): Promise<BulkResult> {
+    this.validateParams(request);
+    if (request.action === 'addToCollection') {
+      const collection = UUID.test(request.collectionId!) ? await this.collectionRepository.findOne({ where: { id: request.collectionId, ownerId } }) : null;
+      if (!collection) throw new HttpException('Collection not found', HttpStatus.NOT_FOUND);
+    }
+    const { files, missing } = await this.selectFiles(ownerId, request);
+    const results = new Map<string, BulkItemResult>(missing.map((id) => [id, { id, ok: false, error: 'File not found' }]));
+    for (const file of files) results.set(file.id, { id: file.id, ok: true });
+
+    const changed = await this.fileRepository.manager.transaction(async (em) => {
+      const ids = files.map((f) => f.id);
+      if (ids.length === 0) return [];
+      switch (request.action) {
+        case 'delete':
+          await em.softDelete(FileEntity, { id: In(ids) });
+          return ids;
+        case 'addToCollection': {
+          await em.findOne(CollectionEntity, { where: { id: request.collectionId }, lock: { mode: 'pessimistic_write' } });
+          const existing = await em.find(CollectionItemEntity, { where: { collectionId: request.collectionId } });
+          const present = new Set(existing.map((i) => i.fileId));
+          let next = existing.reduce((max, i) => Math.max(max, i.position + 1), 0);
+          const added = ids.filter((id) => !present.has(id));
+          if (added.length) await em.insert(CollectionItemEntity, added.map((fileId) => ({ collectionId: request.collectionId!, fileId, position: next++ })));
+          return added;
+        }
+        default: {
+          const updated: string[] = [];
+          for (const file of files) {
+            const patch = this.patchFor(file, request);
+            if (!patch) continue;
+            await em.update(FileEntity, file.id, patch);
+            updated.push(file.id);
+          }
+          return updated;
+        }
+      }
+    });
+
+    if (request.action !== 'delete' && request.action !== 'addToCollection' && changed.length) {
+      await this.filesService.refreshSearchVectors(changed);
+    }
+    const all = [...results.values()];
+    const succeeded = all.filter((r) => r.ok).length;
+    return { action: request.action, succeeded, failed: all.length - succeeded, results: all };
+  }
+
+  private validateParams(request: BulkRequest): void {
+    const { action } = request;
+    if ((action === 'addTags' || action === 'removeTags') && !normalizeTags(request.tags ?? []).length) {
+      throw new HttpException('tags must name at least one tag', HttpStatus.BAD_REQUEST);
+    }
+    if (action === 'setTags' && !Array.isArray(request.tags)) throw new HttpException('tags must be an array of strings', HttpStatus.BAD_REQUEST);
+    if (action === 'setTitlePrefix' && !request.prefix?.trim()) throw new HttpException('prefix is required', HttpStatus.BAD_REQUEST);
+    if (action === 'addToCollection' && !request.collectionId) throw new HttpException('collectionId is required', HttpStatus.BAD_REQUEST);
+  }
+
+  private async selectFiles(ownerId: string, request: BulkRequest): Promise<{ files: FileEntity[]; missing: string[] }> {
+    const max = FileBulkService.MAX_BULK_FILES;
+    if (request.ids && request.filter) throw new HttpException('Pass either ids or filter, not both', HttpStatus.BAD_REQUEST);
+    if (request.ids) {
+      const ids = [...new Set(request.ids)];
+      if (ids.length === 0) throw new HttpException('ids must not be empty', HttpStatus.BAD_REQUEST);
+      if (ids.length > max) throw new HttpException(`At most ${max} files per request`, HttpStatus.BAD_REQUEST);
+      const valid = ids.filter((id) => UUID.test(id));
+      const files = valid.length ? await this.fileRepository.find({ where: { id: In(valid), ownerId } }) : [];
+      const found = new Set(files.map((f) => f.id));
+      return { files, missing: ids.filter((id) => !found.has(id)) };
+    }
+    // An empty filter would select the whole library
+    if (!request.filter || !Object.values(request.filter).some((v) => v !== undefined && (!Array.isArray(v) || v.length > 0))) {
+      throw new HttpException('ids or a non-empty filter is required', HttpStatus.BAD_REQUEST);
+    }
+    const files = await this.filesService.createFilteredQuery(ownerId, request.filter)
+      .orderBy('"file"."uploadedAt"', 'DESC')
+      .limit(max + 1)
+      .getMany();
+    if (files.length > max) throw new HttpException(`Filter matches more than ${max} files; narrow it down`, HttpStatus.BAD_REQUEST);
+    return { files, missing: [] };
+  }
+
+  private patchFor(file: FileEntity, request: BulkRequest): Partial<FileEntity> | null {
+    const current = file.tags ?? [];
+    switch (request.action) {
+      case 'addTags': {
+        const tags = normalizeTags([...current, ...request.tags!]);
+        return tags.length === current.length ? null : { tags };
+      }
+      case 'removeTags': {
+        const removed = new Set(normalizeTags(request.tags!));
+        const tags = current.filter((t) => !removed.has(t));
+        return tags.length === current.length ? null : { tags };
+      }
+      case 'setTags':
+        return { tags: normalizeTags(request.tags!) };
+      case 'setTitlePrefix': {
+        // Files without a title are prefixed by their filename; already-prefixed titles are left alone
+        const prefix = request.prefix!;
+        const base = file.title || file.originalName;
+        return base.startsWith(prefix) ? null : { title: `${prefix}${base}` };
+      }
+      default:
+        return null;
+    }
+  }
+}
@@ -5,12 +5,18 @@ import * as CryptoJS from 'crypto-js';
 import ffmpeg from 'fluent-ffmpeg';
 import * as path from 'path';
 import * as child_process from 'child_process';
+import { StoryboardLayout } from './storyboard';
+import { HlsRendition, HLS_AUDIO_KBPS } from './hls/hls-ladder';
+import { ImageHashes, computeImageHashes, hammingDistance } from './similarity/perceptual-hash';
+import { TranscodeProfile, MediaProbe, BUILT_IN_TRANSCODE_PROFILES, DEFAULT_TRANSCODE_PROFILE } from './transcode/transcode-profiles';
 
 export interface FileProcessingResult {
   hash: string;
   sha256: string;
   md5: string;
-  photoDnaHash?: string; // Placeholder for future PhotoDNA implementation
+  // Images and GIFs only
+  perceptualHash?: string;
+  differenceHash?: string;
   size: number;
   mimeType?: string;
   thumbnailPath?: string; // Path to generated thumbnail
@@ -21,6 +27,11 @@ export interface FileProcessingResult {
 
 @Injectable()
 export class FileProcessingService {
+  // Hover previews: clips up to this long are used whole, longer ones are sampled
+  private static readonly PREVIEW_WHOLE_CLIP_SECONDS = 6;
+  private static readonly PREVIEW_SEGMENTS = 4;
+  private static readonly PREVIEW_SEGMENT_SECONDS = 1.5;
+
   async processFile(filePath: string, providedMimeType?: string): Promise<FileProcessingResult> {
     try {
       const fileBuffer = fs.readFileSync(filePath);
@@ -66,15 +77,13 @@ export class FileProcessingService {
         console.warn('Thumbnail generation failed:', (thumbErr as any)?.message || thumbErr);
       }
 
-      // TODO: Implement PhotoDNA or similar perceptual hashing for media files
-      // This would require additional libraries and possibly external services
-      const photoDnaHash = await this.generatePerceptualHash(fileBuffer);
+      const imageHashes = await this.generatePerceptualHash(filePath, mimeType);
 
       return {
         hash: combinedHash,
         sha256,
         md5,
-        photoDnaHash,
+        ...imageHashes,
         size: stats.size,
         mimeType,
         thumbnailPath,
@@ -88,23 +97,37 @@ export class FileProcessingService {
     }
   }
 
-  async transcodeToMp4(inputPath: string): Promise<string> {
+  // Re-encodes with the given profile (the default one when omitted), or with remux just copies the streams into
+  // an MP4. onProgress gets a percentage when ffmpeg knows the duration
+  async transcodeToMp4(inputPath: string, options: { profile?: TranscodeProfile; remux?: boolean; onProgress?: (percent: number) => void } = {}): Promise<string> {
+    const profile = options.profile ?? BUILT_IN_TRANSCODE_PROFILES[DEFAULT_TRANSCODE_PROFILE];
     return await new Promise<string>((resolve, reject) => {
       try {
         const tempDir = path.join(process.cwd(), 'temp');
         if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
         const outPath = path.join(tempDir, `mp4_${Date.now()}_${Math.random().toString(36).slice(2)}.mp4`);
+        const codecOptions = options.remux
+          ? ['-c', 'copy']
+          : [
+            '-c:v', 'libx264',
+            '-preset', profile.preset,
+            '-crf', String(profile.crf),
+            '-pix_fmt', 'yuv420p',
+            ...(profile.maxHeight ? ['-vf', `scale=-2:min(ih\\,${profile.maxHeight})`] : []),
+            '-c:a', 'aac',
+            '-b:a', `${profile.audioKbps}k`,
+          ];
         ffmpeg(inputPath)
           .outputOptions([
             '-y',
-            '-c:v', 'libx264',
-            '-preset', 'veryfast',
-            '-crf', '23',
-            '-pix_fmt', 'yuv420p',
+            '-map', '0:v:0',
+            '-map', '0:a:0?',
+            ...codecOptions,
             '-movflags', '+faststart',
-            '-c:a', 'aac',
-            '-b:a', '128k',
           ])
+          .on('progress', (p: any) => {
+            if (options.onProgress && typeof p?.percent === 'number' && isFinite(p.percent)) options.onProgress(Math.min(Math.max(p.percent, 0), 100));
+          })
           .on('end', () => {
             if (fs.existsSync(outPath)) resolve(outPath);
             else reject(new Error('MP4 file not created'));
@@ -117,30 +140,71 @@ export class FileProcessingService {
     });
   }
 
-  private async generatePerceptualHash(fileBuffer: Buffer): Promise<string> {
-    // Placeholder for perceptual hashing implementation
-    // In a real implementation, you would use libraries like:
-    // - imagehash for images
-    // - ffmpeg + imagehash for video thumbnails
-    // - PhotoDNA API for Microsoft's PhotoDNA
-    
-    // For now, we'll create a simple content-based hash
-    // This is NOT a perceptual hash but a placeholder
-    const contentHash = crypto.createHash('sha1').update(fileBuffer.slice(0, 1024)).digest('hex');
-    return `placeholder_${contentHash}`;
+  // Container and first video/audio codecs, which decide whether a file plays everywhere as-is
+  probeMedia(filePath: string): MediaProbe {
+    const out = child_process.execSync(
+      `ffprobe -v error -show_entries format=format_name:stream=codec_type,codec_name,pix_fmt -of json "${filePath}"`,
+      { encoding: 'utf8' }
+    );
+    const parsed = JSON.parse(out);
+    const streams: Array<{ codec_type?: string; codec_name?: string; pix_fmt?: string }> = parsed?.streams || [];
+    const video = streams.find((st) => st.codec_type === 'video');
+    const audio = streams.find((st) => st.codec_type === 'audio');
+    return { formatName: parsed?.format?.format_name || '', videoCodec: video?.codec_name, pixelFormat: video?.pix_fmt, audioCodec: audio?.codec_name };
   }
 
-  async detectDuplicates(hash: string, existingHashes: string[]): Promise<boolean> {
-    // Exact match
-    if (existingHashes.includes(hash)) {
-      return true;
+  // Combine separately downloaded tracks (or remux a single TS/fMP4 stream) into one MP4.
+  // Stream copy first; re-encode only if the codecs can't go into MP4 as-is.
+  async muxToMp4(videoPath: string, audioPath?: string): Promise<string> {
+    const tempDir = path.join(process.cwd(), 'temp');
+    if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
+    const outPath = path.join(tempDir, `mux_${Date.now()}_${Math.random().toString(36).slice(2)}.mp4`);
+    const run = (reencode: boolean) => new Promise<void>((resolve, reject) => {
+      const command = ffmpeg(videoPath);
+      if (audioPath) command.input(audioPath);
+      command
+        .outputOptions([
+          '-y',
+          '-map', '0:v:0?',
+          '-map', audioPath ? '1:a:0?' : '0:a:0?',
+          ...(reencode
+            ? ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-pix_fmt', 'yuv420p', '-c:a', 'aac', '-b:a', '128k']
+            : ['-c', 'copy']),
+          '-movflags', '+faststart',
+        ])
+        .on('end', () => {
+          if (fs.existsSync(outPath)) resolve();
+          else reject(new Error('Muxed MP4 not created'));
+        })
+        .on('error', (err: any) => reject(err))
+        .save(outPath);
+    });
+    try {
+      await run(false);
+    } catch (copyErr) {
+      console.warn('Stream copy mux failed, re-encoding:', (copyErr as any)?.message || copyErr);
+      await run(true);
     }
+    return outPath;
+  }
 
-    // TODO: Implement similarity detection for perceptual hashes
-    // This would involve calculating distances between hashes
-    // and determining if they're below a certain threshold
+  // pHash and dHash for still images and the first frame of GIFs; undefined for anything else or undecodable input
+  async generatePerceptualHash(filePath: string, mimeType?: string): Promise<ImageHashes | undefined> {
+    if (!mimeType?.startsWith('image/')) return undefined;
+    try {
+      return await computeImageHashes(filePath);
+    } catch (e) {
+      console.warn('Perceptual hashing failed:', (e as any)?.message || e);
+      return undefined;
+    }
+  }
 
-    return false;
+  // Exact match, or for perceptual hashes anything within maxDistance differing bits
+  async detectDuplicates(hash: string, existingHashes: string[], maxDistance = 0): Promise<boolean> {
+    if (existingHashes.includes(hash)) {
+      return true;
+    }
+    return maxDistance > 0 && existingHashes.some((existing) => hammingDistance(hash, existing) <= maxDistance);
   }
 
   async extractMetadata(filePath: string): Promise<any> {
@@ -165,6 +229,7 @@ export class FileProcessingService {
       '.webm': 'video/webm',
       '.mov': 'video/quicktime',
       '.avi': 'video/x-msvideo',
+      '.mkv': 'video/x-matroska',
       '.gif': 'image/gif',
       '.jpg': 'image/jpeg',
       '.jpeg': 'image/jpeg',
@@ -269,6 +334,117 @@ export class FileProcessingService {
     throw new Error('Failed to generate video thumbnail after multiple attempts');
   }
 
+  probeDurationSeconds(filePath: string): number | undefined {
+    try {
+      const out = child_process.execSync(
+        `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${filePath}"`,
+        { encoding: 'utf8' }
+      ).trim();
+      const seconds = parseFloat(out);
+      return isFinite(seconds) && seconds > 0 ? seconds : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Samples one frame per layout.interval and tiles them into a single JPEG sheet
+  async generateStoryboardSprite(videoPath: string, layout: StoryboardLayout): Promise<string> {
+    const tempDir = path.join(process.cwd(), 'temp');
+    if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
+    const spritePath = path.join(tempDir, `storyboard_${Date.now()}_${Math.random().toString(36).slice(2)}.jpg`);
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(videoPath)
+        .outputOptions([
+          '-y',
+          '-an',
+          '-vf', `fps=1/${layout.interval},scale=${layout.tileWidth}:${layout.tileHeight},tile=${layout.columns}x${layout.rows}`,
+          '-frames:v', '1',
+          '-q:v', '5',
+        ])
+        .output(spritePath)
+        .on('end', () => {
+          if (fs.existsSync(spritePath)) resolve();
+          else reject(new Error('Storyboard sprite not created'));
+        })
+        .on('error', (err: any) => reject(err))
+        .run();
+    });
+    return spritePath;
+  }
+
+  // Short muted loop for hovering in the grid: a few segments spread across the video, or all of a short clip
+  async generateHoverPreview(videoPath: string, durationSeconds: number): Promise<string> {
+    const tempDir = path.join(process.cwd(), 'temp');
+    if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
+    const outPath = path.join(tempDir, `preview_${Date.now()}_${Math.random().toString(36).slice(2)}.mp4`);
+    const segments = FileProcessingService.PREVIEW_SEGMENTS;
+    const segmentSeconds = FileProcessingService.PREVIEW_SEGMENT_SECONDS;
+    const whole = durationSeconds <= FileProcessingService.PREVIEW_WHOLE_CLIP_SECONDS;
+    // Segment i starts at (i + 0.5) / segments of the way in, skipping intros and outros
+    const starts = whole ? [0] : Array.from({ length: segments }, (_, i) => Math.max(((i + 0.5) / segments) * durationSeconds - segmentSeconds / 2, 0));
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg();
+      for (const start of starts) {
+        command.input(videoPath).inputOptions(whole ? [] : ['-ss', start.toFixed(3), '-t', String(segmentSeconds)]);
+      }
+      const scaled = starts.map((_, i) => `[${i}:v]scale=320:-2,setsar=1,fps=24[v${i}]`);
+      command
+        .complexFilter(`${scaled.join(';')};${starts.map((_, i) => `[v${i}]`).join('')}concat=n=${starts.length}:v=1:a=0[out]`, 'out')
+        .outputOptions([
+          '-y',
+          '-an',
+          '-c:v', 'libx264',
+          '-preset', 'veryfast',
+          '-crf', '32',
+          '-maxrate', '400k',
+          '-bufsize', '800k',
+          '-pix_fmt', 'yuv420p',
+          '-movflags', '+faststart',
+        ])
+        .output(outPath)
+        .on('end', () => {
+          if (fs.existsSync(outPath)) resolve();
+          else reject(new Error('Preview clip not created'));
+        })
+        .on('error', (err: any) => reject(err))
+        .run();
+    });
+    return outPath;
+  }
+
+  // Writes one rung of an HLS ladder as outDir/index.m3u8 plus its segments. Keyframes are forced on segment
+  // boundaries so every rendition splits at the same times and players can switch between them cleanly
+  async transcodeHlsRendition(inputPath: string, outDir: string, rendition: HlsRendition, withAudio: boolean, segmentSeconds: number): Promise<void> {
+    fs.mkdirSync(outDir, { recursive: true });
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(inputPath)
+        .outputOptions([
+          '-y',
+          '-map', '0:v:0',
+          ...(withAudio ? ['-map', '0:a:0', '-c:a', 'aac', '-b:a', `${HLS_AUDIO_KBPS}k`, '-ac', '2'] : ['-an']),
+          '-vf', `scale=${rendition.width}:${rendition.height}`,
+          '-c:v', 'libx264',
+          '-preset', 'veryfast',
+          '-b:v', `${rendition.videoKbps}k`,
+          '-maxrate', `${Math.round(rendition.videoKbps * 1.07)}k`,
+          '-bufsize', `${rendition.videoKbps * 2}k`,
+          '-pix_fmt', 'yuv420p',
+          '-force_key_frames', `expr:gte(t,n_forced*${segmentSeconds})`,
+          '-f', 'hls',
+          '-hls_time', String(segmentSeconds),
+          '-hls_playlist_type', 'vod',
+          '-hls_segment_filename', path.join(outDir, 'segment_%04d.ts'),
+        ])
+        .output(path.join(outDir, 'index.m3u8'))
+        .on('end', () => {
+          if (fs.existsSync(path.join(outDir, 'index.m3u8'))) resolve();
+          else reject(new Error(`HLS playlist for ${rendition.name} not created`));
+        })
+        .on('error', (err: any) => reject(err))
+        .run();
+    });
+  }
+
   async generateGifPreview(gifPath: string): Promise<string> {
     return await new Promise<string>((resolve, reject) => {
       try {
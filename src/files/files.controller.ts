@@ -12,17 +12,101 @@ import {
 	UseGuards,
 	Request,
 	Patch,
+	Head,
+	Headers,
+	Header,
+	HttpCode,
 	Res,
+	Query,
+	Sse,
+	MessageEvent,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { FilesService } from './files.service';
+import { FilesService, FILE_SORTS, FileSort, FileListQuery, FileFilters, FileStreamSource } from './files.service';
+import { ResumableUploadService } from './resumable-upload.service';
+import { FileBulkService, BULK_ACTIONS, BulkAction } from './file-bulk.service';
+import { TrashService } from './trash.service';
+import { HlsService } from './hls/hls.service';
+import { TranscodeService } from './transcode/transcode.service';
 import { UploadUrlDto } from './dto/upload-url.dto';
 import { JwtAuthGuard } from '../auth/jwt.guard';
+import { parseTagList } from './tags';
+import { INGEST_STATES, IngestJobState } from './entities/ingest-job.entity';
+import { Observable, catchError, map, of } from 'rxjs';
+import { pipeline } from 'stream';
+import { parseRangeHeader, ifRangeMatches, etagMatches } from './storage/http-range';
+
+const TUS_VERSION = '1.0.0';
+
+// tus Upload-Metadata: comma-separated "key base64value" pairs
+function parseUploadMetadata(header?: string): Record<string, string> {
+	const out: Record<string, string> = {};
+	for (const pair of (header || '').split(',')) {
+		const [key, value] = pair.trim().split(' ');
+		if (key) out[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+	}
+	return out;
+}
+
+// Listing filters as GET /files takes them in the query string; bulk requests send the same fields as JSON,
+// so arrays, numbers and booleans are accepted alongside their string forms
+function parseFileFilters(source: Record<string, unknown>): FileFilters {
+	const str = (name: string) => {
+		const v = source[name];
+		if (v === undefined || v === null || v === '') return undefined;
+		return Array.isArray(v) ? v.map(String).join(',') : String(v);
+	};
+	const list = (name: string) => str(name)?.split(',').map(s => s.trim()).filter(Boolean);
+	const int = (name: string) => {
+		const v = str(name);
+		if (v === undefined) return undefined;
+		if (!/^\d+$/.test(v)) throw new HttpException(`${name} must be a non-negative integer`, HttpStatus.BAD_REQUEST);
+		return parseInt(v, 10);
+	};
+	const date = (name: string) => {
+		const v = str(name);
+		if (!v) return undefined;
+		const d = new Date(v);
+		if (isNaN(d.getTime())) throw new HttpException(`${name} must be a date`, HttpStatus.BAD_REQUEST);
+		return d;
+	};
+	const tagMode = str('tagMode');
+	if (tagMode && tagMode !== 'any' && tagMode !== 'all') throw new HttpException('tagMode must be any or all', HttpStatus.BAD_REQUEST);
+	const hasAudio = str('hasAudio');
+	if (hasAudio && hasAudio !== 'true' && hasAudio !== 'false') throw new HttpException('hasAudio must be true or false', HttpStatus.BAD_REQUEST);
+	const types = list('type')?.map(t => t.toLowerCase().replace(/\/.*$/, ''));
+	if (types?.some(t => !/^[a-z]+$/.test(t))) throw new HttpException('type must be MIME families such as video or image', HttpStatus.BAD_REQUEST);
+	const sourceHost = str('sourceHost')?.trim().toLowerCase();
+	if (sourceHost && !/^[a-z0-9.-]+$/.test(sourceHost)) throw new HttpException('sourceHost must be a hostname', HttpStatus.BAD_REQUEST);
+	return {
+		tags: parseTagList(list('tags')),
+		tagMode: tagMode as 'any' | 'all' | undefined,
+		// type=video,image matches video/* and image/*
+		types,
+		hasAudio: hasAudio ? hasAudio === 'true' : undefined,
+		minDurationMs: int('minDurationMs'),
+		maxDurationMs: int('maxDurationMs'),
+		minWidth: int('minWidth'),
+		maxWidth: int('maxWidth'),
+		minHeight: int('minHeight'),
+		maxHeight: int('maxHeight'),
+		uploadedAfter: date('uploadedAfter'),
+		uploadedBefore: date('uploadedBefore'),
+		sourceHost: sourceHost || undefined,
+	};
+}
 
 @Controller('files')
 @UseGuards(JwtAuthGuard)
 export class FilesController {
-	constructor(private readonly filesService: FilesService) {}
+	constructor(
+		private readonly filesService: FilesService,
+		private readonly resumableUploads: ResumableUploadService,
+		private readonly bulk: FileBulkService,
+		private readonly trash: TrashService,
+		private readonly hls: HlsService,
+		private readonly transcoder: TranscodeService,
+	) {}
 
 	@Post('upload')
 	@UseInterceptors(FileInterceptor('file'))
@@ -33,7 +117,7 @@ export class FilesController {
 
 		try {
 			// Parse comma-separated tags if provided
-			const tags = body.tags ? body.tags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0) : undefined;
+			const tags = parseTagList(body.tags);
 			const result = await this.filesService.uploadFile(file, req.user.userId, undefined, tags);
 			return {
 				message: 'File uploaded successfully',
@@ -45,11 +129,82 @@ export class FilesController {
 		}
 	}
 
+	// Large files go straight from the client to S3; the API only hands out URLs and verifies the result
+	@Post('upload/presign')
+	async presignUpload(@Body() body: { filename: string; contentType?: string; size: number; tags?: string | string[]; title?: string }, @Request() req: any) {
+		if (!body?.filename) throw new HttpException('filename is required', HttpStatus.BAD_REQUEST);
+		try {
+			const tags = parseTagList(body.tags);
+			return await this.filesService.createPresignedUpload(req.user.userId, { filename: body.filename, contentType: body.contentType, size: body.size, tags, title: body.title });
+		} catch (error) {
+			if (error instanceof HttpException) { throw error; }
+			throw new HttpException('Failed to prepare upload', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
+	// tus-style resumable uploads: create, HEAD for the current offset, PATCH chunks at that offset, DELETE to abandon
+	@Post('uploads')
+	async createResumableUpload(@Request() req: any, @Res({ passthrough: true }) res: any) {
+		try {
+			const metadata = parseUploadMetadata(req.headers['upload-metadata']);
+			const tags = parseTagList(metadata.tags);
+			const status = await this.resumableUploads.create(req.user.userId, { length: Number(req.headers['upload-length']), filename: metadata.filename, mimeType: metadata.filetype, tags, title: metadata.title });
+			res.setHeader('Tus-Resumable', TUS_VERSION);
+			res.setHeader('Location', `/files/uploads/${status.id}`);
+			res.setHeader('Upload-Offset', String(status.offset));
+			return status;
+		} catch (error) {
+			if (error instanceof HttpException) { throw error; }
+			throw new HttpException('Failed to create upload', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
+	@Head('uploads/:id')
+	async resumableUploadOffset(@Param('id') id: string, @Request() req: any, @Res({ passthrough: true }) res: any) {
+		const status = await this.resumableUploads.getStatus(id, req.user.userId);
+		res.setHeader('Tus-Resumable', TUS_VERSION);
+		res.setHeader('Upload-Offset', String(status.offset));
+		res.setHeader('Upload-Length', String(status.length));
+		res.setHeader('Cache-Control', 'no-store');
+	}
+
+	@Patch('uploads/:id')
+	async patchResumableUpload(@Param('id') id: string, @Headers('upload-offset') offsetHeader: string | undefined, @Request() req: any, @Res({ passthrough: true }) res: any) {
+		if (!String(req.headers['content-type'] || '').startsWith('application/offset+octet-stream')) {
+			throw new HttpException('Content-Type must be application/offset+octet-stream', HttpStatus.UNSUPPORTED_MEDIA_TYPE);
+		}
+		if (!offsetHeader || !/^\d+$/.test(offsetHeader)) throw new HttpException('Upload-Offset header is required', HttpStatus.BAD_REQUEST);
+		try {
+			// The raw request stream is the chunk; no body parser claims this content type
+			const { status, result } = await this.resumableUploads.appendChunk(id, req.user.userId, Number(offsetHeader), req);
+			res.setHeader('Tus-Resumable', TUS_VERSION);
+			res.setHeader('Upload-Offset', String(status.offset));
+			if (!result) {
+				res.status(HttpStatus.NO_CONTENT);
+				return;
+			}
+			return {
+				message: 'File uploaded successfully',
+				...result,
+			};
+		} catch (error) {
+			if (error instanceof HttpException) { throw error; }
+			throw new HttpException('Failed to write upload chunk', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
+	@Delete('uploads/:id')
+	async terminateResumableUpload(@Param('id') id: string, @Request() req: any, @Res({ passthrough: true }) res: any) {
+		await this.resumableUploads.terminate(id, req.user.userId);
+		res.setHeader('Tus-Resumable', TUS_VERSION);
+		res.status(HttpStatus.NO_CONTENT);
+	}
+
 	@Post('upload-url')
 	async uploadFromUrl(@Body() body: { url: string; tags?: string }, @Request() req: any) {
 		try {
 			// Parse comma-separated tags if provided
-			const tags = body.tags ? body.tags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0) : undefined;
+			const tags = parseTagList(body.tags);
 			const result = await this.filesService.uploadFromUrl(body.url, req.user.userId, tags);
 			return {
 				message: 'File downloaded and uploaded successfully',
@@ -66,7 +221,7 @@ export class FilesController {
 	async ingestUrl(@Body() body: { url: string; tags?: string }, @Request() req: any) {
 		if (!body?.url) throw new HttpException('url is required', HttpStatus.BAD_REQUEST);
 		try {
-			const tags = body.tags ? body.tags.split(',').map(tag => tag.trim()).filter(Boolean) : undefined;
+			const tags = parseTagList(body.tags);
 			const job = await this.filesService.startIngestJob(body.url, req.user.userId, tags);
 			return job; // { jobId }
 		} catch (e) {
@@ -78,7 +233,7 @@ export class FilesController {
 	async retryIngest(@Body() body: { url: string; tags?: string }, @Request() req: any) {
 		if (!body?.url) throw new HttpException('url is required', HttpStatus.BAD_REQUEST);
 		try {
-			const tags = body.tags ? body.tags.split(',').map(tag => tag.trim()).filter(Boolean) : undefined;
+			const tags = parseTagList(body.tags);
 			const job = await this.filesService.startIngestJob(body.url, req.user.userId, tags);
 			return job; // { jobId }
 		} catch (e) {
@@ -86,6 +241,65 @@ export class FilesController {
 		}
 	}
 
+	@Post('ingest-batch')
+	async ingestBatch(@Body() body: { items: Array<{ url: string; tags?: string | string[]; title?: string }> }, @Request() req: any) {
+		if (!Array.isArray(body?.items) || body.items.length === 0) throw new HttpException('items must be a non-empty array', HttpStatus.BAD_REQUEST);
+		try {
+			const items = body.items.map((item) => ({
+				url: item?.url,
+				title: item?.title,
+				// Same comma-separated format as ingest-url, or an array
+				tags: parseTagList(item?.tags),
+			}));
+			return await this.filesService.startIngestBatch(items, req.user.userId);
+		} catch (e) {
+			if (e instanceof HttpException) throw e;
+			throw new HttpException('Failed to start ingest batch', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
+	@Get('ingest-batch/:batchId')
+	async getIngestBatch(@Param('batchId') batchId: string, @Request() req: any) {
+		try {
+			return await this.filesService.getIngestBatchStatus(batchId, req.user.userId);
+		} catch (e) {
+			throw new HttpException('Batch not found', HttpStatus.NOT_FOUND);
+		}
+	}
+
+	@Get('ingest')
+	async listIngest(@Query('state') state: string | undefined, @Query('limit') limit: string | undefined, @Query('offset') offset: string | undefined, @Request() req: any) {
+		// state=downloading,uploading
+		const states = state ? state.split(',').map(s => s.trim()).filter(Boolean) : [];
+		const unknown = states.filter(s => !INGEST_STATES.includes(s as IngestJobState));
+		if (unknown.length) throw new HttpException(`Unknown state: ${unknown.join(', ')}`, HttpStatus.BAD_REQUEST);
+		try {
+			return await this.filesService.listIngestJobs(req.user.userId, {
+				states: states as IngestJobState[],
+				limit: limit ? parseInt(limit, 10) || undefined : undefined,
+				offset: offset ? parseInt(offset, 10) || undefined : undefined,
+			});
+		} catch (e) {
+			throw new HttpException('Failed to list ingest jobs', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
+	// Declared before ingest/:jobId so "events" isn't taken for a job id
+	@Sse('ingest/events')
+	ingestEvents(@Request() req: any): Observable<MessageEvent> {
+		return this.filesService.watchIngestJobs(req.user.userId).pipe(
+			map((e) => ({ type: e.type, data: e.status })),
+		);
+	}
+
+	@Sse('ingest/:jobId/events')
+	ingestJobEvents(@Param('jobId') jobId: string, @Request() req: any): Observable<MessageEvent> {
+		return this.filesService.watchIngestJob(jobId, req.user.userId).pipe(
+			map((e) => ({ type: e.type, data: e.status })),
+			catchError(() => of({ type: 'error', data: { message: 'Job not found' } })),
+		);
+	}
+
 	@Get('ingest/:jobId')
 	async getIngest(@Param('jobId') jobId: string, @Request() req: any) {
 		try {
@@ -95,11 +309,31 @@ export class FilesController {
 		}
 	}
 
+	@Delete('ingest/:jobId')
+	async cancelIngest(@Param('jobId') jobId: string, @Request() req: any) {
+		try {
+			const job = await this.filesService.cancelIngestJob(jobId, req.user.userId);
+			return { message: 'Ingest job cancelled', job };
+		} catch (e) {
+			if (e instanceof HttpException) throw e;
+			throw new HttpException('Failed to cancel ingest job', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
 	@Get()
-	async getAllFiles(@Request() req: any) {
+	async listFiles(@Query() query: Record<string, string | undefined>, @Request() req: any) {
+		if (query.sort && !FILE_SORTS.includes(query.sort as FileSort)) throw new HttpException(`sort must be one of ${FILE_SORTS.join(', ')}`, HttpStatus.BAD_REQUEST);
+		if (query.limit && !/^\d+$/.test(query.limit)) throw new HttpException('limit must be a non-negative integer', HttpStatus.BAD_REQUEST);
+		const filters: FileListQuery = {
+			cursor: query.cursor || undefined,
+			limit: query.limit ? parseInt(query.limit, 10) : undefined,
+			sort: query.sort as FileSort | undefined,
+			...parseFileFilters(query),
+		};
 		try {
-			return await this.filesService.getAllFiles(req.user.userId);
+			return await this.filesService.listFiles(req.user.userId, filters);
 		} catch (error) {
+			if (error instanceof HttpException) { throw error; }
 			throw new HttpException(
 				'Failed to retrieve files',
 				HttpStatus.INTERNAL_SERVER_ERROR,
@@ -107,6 +341,98 @@ export class FilesController {
 		}
 	}
 
+	// { action, ids | filter, tags?, prefix?, collectionId? }; filter takes the same fields as GET /files
+	@Post('bulk')
+	async bulkAction(@Body() body: { action: BulkAction; ids?: string[]; filter?: Record<string, unknown>; tags?: string | string[]; prefix?: string; collectionId?: string }, @Request() req: any) {
+		if (!BULK_ACTIONS.includes(body?.action)) throw new HttpException(`action must be one of ${BULK_ACTIONS.join(', ')}`, HttpStatus.BAD_REQUEST);
+		if (body.ids !== undefined && (!Array.isArray(body.ids) || body.ids.some(id => typeof id !== 'string'))) {
+			throw new HttpException('ids must be an array of strings', HttpStatus.BAD_REQUEST);
+		}
+		if (body.filter !== undefined && (typeof body.filter !== 'object' || body.filter === null)) throw new HttpException('filter must be an object', HttpStatus.BAD_REQUEST);
+		try {
+			return await this.bulk.run(req.user.userId, {
+				action: body.action,
+				ids: body.ids,
+				filter: body.filter ? parseFileFilters(body.filter) : undefined,
+				tags: body.tags === undefined ? undefined : parseTagList(body.tags) ?? [],
+				prefix: typeof body.prefix === 'string' ? body.prefix : undefined,
+				collectionId: body.collectionId,
+			});
+		} catch (error) {
+			if (error instanceof HttpException) { throw error; }
+			throw new HttpException('Bulk operation failed', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
+	// Trash routes are declared before :id so "trash" isn't taken for a file id
+	@Get('trash')
+	async listTrash(@Query('limit') limit: string | undefined, @Query('offset') offset: string | undefined, @Request() req: any) {
+		try {
+			return await this.trash.listTrash(req.user.userId, {
+				limit: limit ? parseInt(limit, 10) || undefined : undefined,
+				offset: offset ? parseInt(offset, 10) || undefined : undefined,
+			});
+		} catch (error) {
+			throw new HttpException('Failed to retrieve trash', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
+	@Delete('trash')
+	async emptyTrash(@Request() req: any) {
+		try {
+			const result = await this.trash.emptyTrash(req.user.userId);
+			return { message: 'Trash emptied', ...result };
+		} catch (error) {
+			throw new HttpException('Failed to empty trash', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
+	@Post(':id/restore')
+	async restoreFile(@Param('id') id: string, @Request() req: any) {
+		try {
+			const file = await this.trash.restoreFile(id, req.user.userId);
+			return { message: 'File restored', file };
+		} catch (error) {
+			if (error instanceof HttpException) { throw error; }
+			throw new HttpException('Failed to restore file', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
+	@Get('transcode-profiles')
+	listTranscodeProfiles() {
+		return this.transcoder.listProfiles();
+	}
+
+	// Re-queues the MP4 rendition, e.g. after a failure; progress and errors show up on the file's transcode fields
+	@Post(':id/transcode')
+	@HttpCode(HttpStatus.ACCEPTED)
+	async transcodeFile(@Param('id') id: string, @Body() body: { profile?: string }, @Request() req: any) {
+		try {
+			return await this.transcoder.requeue(id, req.user.userId, body?.profile || undefined);
+		} catch (error) {
+			if (error instanceof HttpException) { throw error; }
+			throw new HttpException('Failed to queue transcode', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
+	// Declared before :id so "search" isn't taken for a file id
+	@Get('search')
+	async searchFiles(@Query('q') q: string | undefined, @Query('limit') limit: string | undefined, @Query('offset') offset: string | undefined, @Request() req: any) {
+		// q=cat "funny dog" tag:memes host:reddit.com
+		const text = (q || '').trim();
+		if (!text) throw new HttpException('q is required', HttpStatus.BAD_REQUEST);
+		if (text.length > 500) throw new HttpException('q is too long', HttpStatus.BAD_REQUEST);
+		try {
+			return await this.filesService.searchFiles(req.user.userId, text, {
+				limit: limit ? parseInt(limit, 10) || undefined : undefined,
+				offset: offset ? parseInt(offset, 10) || undefined : undefined,
+			});
+		} catch (error) {
+			if (error instanceof HttpException) { throw error; }
+			throw new HttpException('Failed to search files', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
 	@Get(':id')
 	async getFile(@Param('id') id: string, @Request() req: any) {
 		try {
@@ -126,23 +452,97 @@ export class FilesController {
 		}
 	}
 
+	// Plays in the browser: real content type, Range requests for seeking, and the MP4 rendition when there is one
+	@Get(':id/stream')
+	async streamFile(@Param('id') id: string, @Headers() headers: Record<string, string | undefined>, @Request() req: any, @Res() res: any) {
+		try {
+			const f = await this.filesService.getFileEntity(id, req.user.userId);
+			if (!f) throw new HttpException('File not found', HttpStatus.NOT_FOUND);
+			await this.sendObject(res, this.filesService.getStreamSource(f, { playback: true }), headers);
+		} catch (e) {
+			if (e instanceof HttpException) throw e;
+			throw new HttpException('Failed to stream file', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
+	// Seek-preview thumbnails track for the player
+	@Get(':id/storyboard.vtt')
+	@Header('Content-Type', 'text/vtt; charset=utf-8')
+	async getStoryboard(@Param('id') id: string, @Request() req: any) {
+		try {
+			return await this.filesService.getStoryboardVtt(id, req.user.userId);
+		} catch (e) {
+			if (e instanceof HttpException) throw e;
+			throw new HttpException('Failed to load storyboard', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
+	// Master and variant playlists of the HLS ladder; segments are fetched straight from storage via signed URLs
+	@Get(':id/hls/*path')
+	@Header('Content-Type', 'application/vnd.apple.mpegurl')
+	async getHlsPlaylist(@Param('id') id: string, @Param('path') segments: string[], @Request() req: any) {
+		try {
+			return await this.hls.getPlaylist(id, req.user.userId, segments.join('/'));
+		} catch (e) {
+			if (e instanceof HttpException) throw e;
+			throw new HttpException('Failed to load playlist', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
 	@Get(':id/download')
-	async downloadFile(@Param('id') id: string, @Request() req: any, @Res() res: any) {
+	async downloadFile(@Param('id') id: string, @Headers() headers: Record<string, string | undefined>, @Request() req: any, @Res() res: any) {
 		try {
 			const f = await this.filesService.getFileEntity(id, req.user.userId);
 			if (!f) throw new HttpException('File not found', HttpStatus.NOT_FOUND);
-			const key = f.filename;
-			const streamInfo = await this.filesService.getObjectStream(key);
 			res.setHeader('Content-Disposition', `attachment; filename="${f.originalName || 'download'}"`);
 			// Force generic content type to avoid inline viewers
-			res.setHeader('Content-Type', 'application/octet-stream');
-			if (typeof streamInfo.contentLength === 'number') res.setHeader('Content-Length', String(streamInfo.contentLength));
-			(streamInfo.body as any).pipe(res);
+			const source = { ...this.filesService.getStreamSource(f), contentType: 'application/octet-stream' };
+			await this.sendObject(res, source, headers);
 		} catch (e) {
+			if (e instanceof HttpException) throw e;
 			throw new HttpException('Failed to download file', HttpStatus.INTERNAL_SERVER_ERROR);
 		}
 	}
 
+	// Honours Range, If-Range and If-None-Match, forwarding the range to storage so only those bytes are fetched
+	private async sendObject(res: any, source: FileStreamSource, headers: Record<string, string | undefined>): Promise<void> {
+		const head = await this.filesService.headObject(source.key);
+		if (!head) throw new HttpException('File content not found', HttpStatus.NOT_FOUND);
+		res.setHeader('ETag', source.etag);
+		res.setHeader('Last-Modified', source.lastModified.toUTCString());
+		res.setHeader('Accept-Ranges', 'bytes');
+		if (etagMatches(headers['if-none-match'], source.etag)) {
+			res.status(HttpStatus.NOT_MODIFIED).end();
+			return;
+		}
+		const range = ifRangeMatches(headers['if-range'], source.etag, source.lastModified) ? parseRangeHeader(headers['range'], head.contentLength) : null;
+		if (range === 'unsatisfiable') {
+			res.status(HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE).setHeader('Content-Range', `bytes */${head.contentLength}`);
+			res.end();
+			return;
+		}
+		const object = await this.filesService.getObjectStream(source.key, range ?? undefined);
+		res.setHeader('Content-Type', source.contentType);
+		if (typeof object.contentLength === 'number') res.setHeader('Content-Length', String(object.contentLength));
+		if (range) res.status(HttpStatus.PARTIAL_CONTENT).setHeader('Content-Range', `bytes ${range.start}-${range.end}/${object.totalLength ?? head.contentLength}`);
+		// pipeline rather than pipe so a player abandoning a range (which seeking does constantly) also closes the storage stream
+		pipeline(object.body, res, () => {});
+	}
+
+	@Post(':id/complete')
+	async completeUpload(@Param('id') id: string, @Body() body: { parts?: Array<{ partNumber: number; etag: string }> }, @Request() req: any) {
+		try {
+			const result = await this.filesService.completePresignedUpload(id, req.user.userId, body?.parts);
+			return {
+				message: 'File uploaded successfully',
+				...result,
+			};
+		} catch (error) {
+			if (error instanceof HttpException) { throw error; }
+			throw new HttpException('Failed to complete upload', HttpStatus.INTERNAL_SERVER_ERROR);
+		}
+	}
+
 	@Post(':id/refresh-url')
 	async refreshFileUrl(@Param('id') id: string, @Request() req: any) {
 		try {
@@ -188,7 +588,7 @@ export class FilesController {
 		try {
 			await this.filesService.deleteFile(id, req.user.userId);
 			return {
-				message: 'File deleted successfully',
+				message: 'File moved to trash',
 			};
 		} catch (error) {
 			throw new HttpException(
@@ -5,16 +5,49 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { FilesController, AdminController } from './files.controller';
 import { FilesService } from './files.service';
 import { S3Service } from './s3.service';
+import { LocalStorageService } from './storage/local-storage.service';
+import { StorageController } from './storage/storage.controller';
+import { STORAGE_PROVIDER } from './storage/storage-provider';
 import { FileProcessingService } from './file-processing.service';
 import { FileEntity } from './entities/file.entity';
+import { IngestJobEntity } from './entities/ingest-job.entity';
+import { IngestBatchEntity } from './entities/ingest-batch.entity';
+import { PendingUploadEntity } from './entities/pending-upload.entity';
+import { ResumableUploadEntity } from './entities/resumable-upload.entity';
+import { ResumableUploadService } from './resumable-upload.service';
+import { TagsController } from './tags.controller';
+import { TagsService } from './tags.service';
+import { FileBulkService } from './file-bulk.service';
+import { TrashService } from './trash.service';
+import { HlsService } from './hls/hls.service';
+import { TranscodeService } from './transcode/transcode.service';
+import { NearDuplicateService } from './similarity/near-duplicate.service';
+import { MediaJobQueueService } from './media-job-queue.service';
+import { CollectionEntity } from '../collections/entities/collection.entity';
+import { CollectionItemEntity } from '../collections/entities/collection-item.entity';
 import { UsersModule } from '../users/users.module';
 import { NotificationsModule } from '../notifications/notifications.module';
-import { FingerprintClient } from './fingerprint.client';
+import { FingerprintClient, FINGERPRINT_PROVIDERS } from './fingerprint.client';
+import { FingerprintService } from './fingerprint.service';
+import { IngestEventsService } from './ingest-events.service';
+import { MediaFetcherService } from './media-fetcher.service';
+import { ManifestDownloaderService } from './manifests/manifest-downloader.service';
+import { MEDIA_RESOLVERS, MediaResolver } from './resolvers/media-resolver';
+import { MediaResolverRegistry } from './resolvers/media-resolver.registry';
+import { ResolverHttpClient } from './resolvers/resolver-http.client';
+import { RedgifsResolver } from './resolvers/redgifs.resolver';
+import { ImgurResolver } from './resolvers/imgur.resolver';
+import { RedditResolver } from './resolvers/reddit.resolver';
+import { TwitterResolver } from './resolvers/twitter.resolver';
+import { GenericHtmlResolver } from './resolvers/generic-html.resolver';
+
+// Host-specific URL resolvers; the registry orders them by their own priority
+const mediaResolvers = [RedgifsResolver, ImgurResolver, RedditResolver, TwitterResolver, GenericHtmlResolver];
 
 @Module({
   imports: [
     ConfigModule,
-    TypeOrmModule.forFeature([FileEntity]),
+    TypeOrmModule.forFeature([FileEntity, IngestJobEntity, IngestBatchEntity, PendingUploadEntity, ResumableUploadEntity, CollectionEntity, CollectionItemEntity]),
     UsersModule,
     NotificationsModule,
     MulterModule.register({
@@ -24,16 +57,54 @@ import { FingerprintClient } from './fingerprint.client';
       },
     }),
   ],
-  controllers: [FilesController, AdminController],
+  controllers: [FilesController, TagsController, StorageController, AdminController],
+  exports: [FilesService, STORAGE_PROVIDER],
   providers: [
     FilesService,
+    ResumableUploadService,
+    TagsService,
+    FileBulkService,
+    TrashService,
+    HlsService,
+    TranscodeService,
+    NearDuplicateService,
+    MediaJobQueueService,
     S3Service,
+    LocalStorageService,
+    // STORAGE_DRIVER picks the backend: S3 by default, or the local disk to run without AWS
+    {
+      provide: STORAGE_PROVIDER,
+      useFactory: (config: ConfigService, s3: S3Service, local: LocalStorageService) => (config.get<string>('STORAGE_DRIVER') === 'local' ? local : s3),
+      inject: [ConfigService, S3Service, LocalStorageService],
+    },
     FileProcessingService,
+    IngestEventsService,
+    MediaFetcherService,
+    ManifestDownloaderService,
+    ResolverHttpClient,
+    ...mediaResolvers,
+    {
+      provide: MEDIA_RESOLVERS,
+      useFactory: (...resolvers: MediaResolver[]) => resolvers,
+      inject: mediaResolvers,
+    },
+    MediaResolverRegistry,
     {
       provide: FingerprintClient,
       useFactory: (config: ConfigService) => new FingerprintClient(config.get<string>('FINGERPRINT_SERVICE_URL') || 'http://localhost:8001'),
       inject: [ConfigService],
     },
+    FingerprintService,
+    {
+      // FINGERPRINT_LOCAL: 'fallback' (default) tries the remote service first, 'primary' the in-process one, 'off' remote only
+      provide: FINGERPRINT_PROVIDERS,
+      useFactory: (config: ConfigService, remote: FingerprintClient, local: FingerprintService) => {
+        const mode = config.get<string>('FINGERPRINT_LOCAL') || 'fallback';
+        if (mode === 'off') return [remote];
+        return mode === 'primary' ? [local, remote] : [remote, local];
+      },
+      inject: [ConfigService, FingerprintClient, FingerprintService],
+    },
   ],
 })
 export class FilesModule {}
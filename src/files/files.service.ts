@@ -1,15 +1,34 @@
-import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { Injectable, Inject, HttpException, HttpStatus, OnApplicationBootstrap } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { S3Service } from './s3.service';
+import { ConfigService } from '@nestjs/config';
+import { Brackets, In, LessThan, Repository, SelectQueryBuilder } from 'typeorm';
+import { STORAGE_PROVIDER } from './storage/storage-provider';
+import type { ByteRange, StorageProvider } from './storage/storage-provider';
 import { FileProcessingService } from './file-processing.service';
 import { FileEntity } from './entities/file.entity';
+import { IngestJobEntity, IngestJobState, IngestJobDetails, ACTIVE_INGEST_STATES, TERMINAL_INGEST_STATES } from './entities/ingest-job.entity';
+import { IngestBatchEntity, IngestBatchItem } from './entities/ingest-batch.entity';
+import { PendingUploadEntity } from './entities/pending-upload.entity';
 import * as fs from 'fs';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import axios from 'axios';
-import { FingerprintClient } from './fingerprint.client';
+import { FINGERPRINT_PROVIDERS } from './fingerprint.client';
+import type { FingerprintProvider } from './fingerprint.client';
 import { NotificationsService } from '../notifications/notifications.service';
+import { IngestEventsService, IngestEvent } from './ingest-events.service';
+import { MediaResolverRegistry } from './resolvers/media-resolver.registry';
+import { ResolvedMedia } from './resolvers/media-resolver';
+import { MediaFetcherService } from './media-fetcher.service';
+import { ManifestDownloaderService } from './manifests/manifest-downloader.service';
+import { parseSearchQuery } from './search/search-query';
+import { normalizeTags } from './tags';
+import { planStoryboard, buildStoryboardVtt } from './storyboard';
+import { HlsService } from './hls/hls.service';
+import { TranscodeService } from './transcode/transcode.service';
+import { NearDuplicateService } from './similarity/near-duplicate.service';
+import { MediaJobQueueService } from './media-job-queue.service';
+import { Observable, concat, from, of, switchMap, takeWhile } from 'rxjs';
 import * as crypto from 'crypto';
 
 export interface FileRecord {
@@ -21,6 +40,12 @@ export interface FileRecord {
   url: string;
   mp4Url?: string;
   thumbnailUrl?: string;
+  // API path of the seek-preview WebVTT track, once generated
+  storyboardVttUrl?: string;
+  // Short muted loop for hovering in the grid, once generated
+  previewUrl?: string;
+  // API path of the HLS master playlist, for long videos once the ladder is ready
+  hlsUrl?: string;
   sourceUrl?: string;
 	title?: string | null;
   tags?: string[];
@@ -30,123 +55,126 @@ export interface FileRecord {
   height?: number;
 }
 
+export const FILE_SORTS = ['newest', 'oldest', 'longest', 'largest'] as const;
+export type FileSort = typeof FILE_SORTS[number];
+
+// Filters shared by the file listing and bulk operations
+export interface FileFilters {
+  tags?: string[];
+  // any: at least one of the tags; all: every tag
+  tagMode?: 'any' | 'all';
+  // MIME families such as video or image
+  types?: string[];
+  hasAudio?: boolean;
+  minDurationMs?: number;
+  maxDurationMs?: number;
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  uploadedAfter?: Date;
+  uploadedBefore?: Date;
+  sourceHost?: string;
+}
+
+export interface FileListQuery extends FileFilters {
+  cursor?: string;
+  limit?: number;
+  sort?: FileSort;
+}
+
+export interface FileListPage {
+  items: FileRecord[];
+  // Pass back as ?cursor= for the next page; null on the last page
+  nextCursor: string | null;
+  limit: number;
+}
+
+export interface FileSearchPage {
+  items: FileRecord[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface IngestJobStatus {
+  id: string;
+  state: IngestJobState;
+  totalBytes: number;
+  downloadedBytes: number;
+  uploadedBytes: number;
+  fileId: string | null;
+  fileIds: string[];
+  duplicateOfFileId: string | null;
+  batchId: string | null;
+  title: string | null;
+  error: string | null;
+  ext: string;
+  mimeType: string | null;
+  sourceUrl: string;
+  providedUrl: string;
+  resolvedUrl: string | null;
+  finalUrl: string | null;
+  details: IngestJobDetails | null;
+  attempts: number;
+  createdAt?: string;
+  updatedAt?: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface PresignedUpload {
+  fileId: string;
+  key: string;
+  // When the presigned URLs stop working; the pending upload itself lives longer
+  expiresAt: string;
+  method: 'PUT' | 'MULTIPART';
+  url?: string;
+  headers?: Record<string, string>;
+  multipart?: { uploadId: string; partSize: number; parts: Array<{ partNumber: number; url: string }> };
+}
+
+export interface FileStreamSource {
+  key: string;
+  contentType: string;
+  etag: string;
+  lastModified: Date;
+}
+
 interface PotentialMatch { id: string; sourceUrl?: string; reason: 'audio' | 'longer'; }
 
+interface IngestItemProgress { tempFilePath?: string; uploadedKey?: string; handedOff: boolean; }
+
 @Injectable()
-export class FilesService {
+export class FilesService implements OnApplicationBootstrap {
   constructor(
     @InjectRepository(FileEntity)
     private readonly fileRepository: Repository<FileEntity>,
-    private readonly s3Service: S3Service,
+    @InjectRepository(IngestJobEntity)
+    private readonly ingestJobRepository: Repository<IngestJobEntity>,
+    @InjectRepository(IngestBatchEntity)
+    private readonly ingestBatchRepository: Repository<IngestBatchEntity>,
+    @InjectRepository(PendingUploadEntity)
+    private readonly pendingUploadRepository: Repository<PendingUploadEntity>,
+    @Inject(STORAGE_PROVIDER)
+    private readonly storage: StorageProvider,
     private readonly fileProcessingService: FileProcessingService,
-		private readonly remoteFingerprint: FingerprintClient,
+		@Inject(FINGERPRINT_PROVIDERS)
+		private readonly fingerprinters: FingerprintProvider[],
 		private readonly notificationsService: NotificationsService,
+		private readonly ingestEvents: IngestEventsService,
+		private readonly mediaResolvers: MediaResolverRegistry,
+		private readonly mediaFetcher: MediaFetcherService,
+		private readonly manifestDownloader: ManifestDownloaderService,
+		private readonly hls: HlsService,
+		private readonly transcoder: TranscodeService,
+		private readonly nearDuplicates: NearDuplicateService,
+		private readonly mediaQueue: MediaJobQueueService,
+		private readonly config: ConfigService,
 	) {}
 
-  // Simple per-host concurrency limiter to avoid hammering domains like 4cdn
-  private hostLimits: Map<string, { active: number; queue: Array<() => void>; limit: number }> = new Map();
-
-  private async withHostLimit<T>(hostname: string, limit: number, task: () => Promise<T>): Promise<T> {
-    let entry = this.hostLimits.get(hostname);
-    if (!entry) {
-      entry = { active: 0, queue: [], limit };
-      this.hostLimits.set(hostname, entry);
-    } else {
-      entry.limit = limit; // allow dynamic adjustment per call
-    }
-
-    const acquire = async () => {
-      if (entry!.active < entry!.limit) {
-        entry!.active++;
-        return;
-      }
-      await new Promise<void>((resolve) => entry!.queue.push(() => { entry!.active++; resolve(); }));
-    };
-
-    const release = () => {
-      entry!.active = Math.max(0, entry!.active - 1);
-      const next = entry!.queue.shift();
-      if (next) next();
-    };
-
-    await acquire();
-    try {
-      return await task();
-    } finally {
-      release();
-    }
-  }
-
-  private buildPoliteHeaders(rawUrl: string): Record<string, string> {
-    try {
-      const u = new URL(rawUrl);
-      const ext = path.extname(u.pathname).toLowerCase();
-      const headers: Record<string, string> = {
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
-      };
-      // Accept heuristics
-      if (ext === '.webm') headers['Accept'] = 'video/webm,video/*;q=0.9,*/*;q=0.8';
-      else if (ext === '.mp4' || ext === '.mov') headers['Accept'] = 'video/mp4,video/*;q=0.9,*/*;q=0.8';
-      else if (ext === '.gif') headers['Accept'] = 'image/gif,image/*;q=0.9,*/*;q=0.8';
-      else if (ext === '.jpg' || ext === '.jpeg') headers['Accept'] = 'image/jpeg,image/*;q=0.9,*/*;q=0.8';
-      else if (ext === '.png') headers['Accept'] = 'image/png,image/*;q=0.9,*/*;q=0.8';
-      else headers['Accept'] = '*/*';
-
-      // Referer for known hosts that enforce it
-      if (u.hostname === 'i.4cdn.org' || u.hostname.endsWith('4cdn.org')) {
-        // path like /gif/<file> → board is first segment
-        const seg = u.pathname.split('/').filter(Boolean)[0] || '';
-        headers['Referer'] = seg ? `https://boards.4chan.org/${seg}/` : 'https://boards.4chan.org/';
-        headers['Origin'] = 'https://boards.4chan.org';
-        headers['Accept-Language'] = 'en-US,en;q=0.9';
-      } else if (u.hostname.endsWith('redgifs.com')) {
-        headers['Referer'] = 'https://www.redgifs.com/';
-      } else if (u.hostname.endsWith('imgur.com')) {
-        headers['Referer'] = 'https://imgur.com/';
-      }
-      return headers;
-    } catch {
-      return { 'User-Agent': 'Mozilla/5.0', 'Accept': '*/*' };
-    }
-  }
-
   private async sleep(ms: number) { await new Promise((r) => setTimeout(r, ms)); }
 
-  private async fetchStreamWithBackoff(url: string, headers: Record<string, string> = {}, maxRetries = 3) {
-    let lastErr: any;
-    let hostname = 'unknown';
-    try { hostname = new URL(url).hostname; } catch {}
-    const hostLimit = hostname.endsWith('4cdn.org') ? 1 : 4;
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        const resp = await this.withHostLimit(hostname, hostLimit, async () => {
-          return await axios({ method: 'GET', url, responseType: 'stream', headers, maxRedirects: 3, timeout: 20000, validateStatus: (s) => s < 500 || s === 429 });
-        });
-        if (resp.status === 429) {
-          const ra = Number(resp.headers?.['retry-after'] || 0);
-          const delay = ra > 0 ? ra * 1000 : (1000 << Math.min(attempt, 3)) + Math.floor(Math.random() * 250);
-          if (attempt === maxRetries) throw new Error('HTTP 429 Too Many Requests');
-          await this.sleep(delay);
-          continue;
-        }
-        if (resp.status >= 200 && resp.status < 300) return resp;
-        throw new Error(`Unexpected status ${resp.status}`);
-      } catch (e: any) {
-        lastErr = e;
-        const status = e?.response?.status;
-        if (status === 429 && attempt < maxRetries) {
-          const ra = Number(e?.response?.headers?.['retry-after'] || 0);
-          const delay = ra > 0 ? ra * 1000 : (1000 << Math.min(attempt, 3)) + Math.floor(Math.random() * 250);
-          await this.sleep(delay);
-          continue;
-        }
-        if (attempt === maxRetries) break;
-        await this.sleep((500 << Math.min(attempt, 3)) + Math.floor(Math.random() * 200));
-      }
-    }
-    throw lastErr || new Error('Failed to fetch stream');
-  }
-
   private detectMimeFromMagic(filePath: string): { mime: string; ext: string } | null {
     try {
       const fd = fs.openSync(filePath, 'r');
@@ -175,20 +203,21 @@ export class FilesService {
     for (const f of all) {
       processed++;
       const needs = !(typeof (f as any).width === 'number' && (f as any).width! > 0) || !(typeof (f as any).height === 'number' && (f as any).height! > 0);
-      if (!needs) continue;
+      // Images uploaded before perceptual hashing get their hashes here too
+      const needsHashes = f.mimeType?.startsWith('image/') && !f.perceptualHash;
+      if (!needs && !needsHashes) continue;
       try {
-        // Download to a temp path via S3 signed URL
-        const signed = await this.s3Service.getSignedUrl(f.filename, 3600);
-        const resp = await axios.get(signed, { responseType: 'arraybuffer', timeout: 30000 });
+        // Download to a temp path straight from storage
         const tempDir = path.join(process.cwd(), 'temp'); if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
         const tmpPath = path.join(tempDir, `dim_${f.id}_${Date.now()}`);
-        fs.writeFileSync(tmpPath, Buffer.from(resp.data));
         try {
+          await this.storage.downloadToFile(f.filename, tmpPath);
           const fp = await this.fileProcessingService.processFile(tmpPath, f.mimeType);
           const width = fp.width;
           const height = fp.height;
-          if (width && height) {
-            await this.fileRepository.update(f.id, { width, height });
+          const hashes = fp.perceptualHash ? { perceptualHash: fp.perceptualHash, differenceHash: fp.differenceHash ?? null } : {};
+          if ((width && height) || fp.perceptualHash) {
+            await this.fileRepository.update(f.id, { ...(width && height ? { width, height } : {}), ...hashes });
             updated++;
           }
         } finally {
@@ -256,22 +285,25 @@ export class FilesService {
 	}
 
 	private async computeAndStoreFingerprints(tempPath: string, entity: FileEntity): Promise<FileEntity> {
-		try {
-			const fp = await this.remoteFingerprint.fingerprintFile(tempPath);
-			if (fp) {
+		// Providers are tried in the configured order until one returns a fingerprint
+		for (const provider of this.fingerprinters) {
+			try {
+				const fp = await provider.fingerprintFile(tempPath);
+				if (!fp) {
+					console.log(`[fingerprint] ${provider.name} unavailable`);
+					continue;
+				}
 				entity.durationMs = fp.durationMs ?? null;
 				entity.hasAudio = !!fp.hasAudio;
 				entity.audioFingerprint = fp.audioFingerprint || null;
 				entity.frameHashSequence = fp.frameHashes || null;
-				console.log('[fingerprint] remote', { durationMs: entity.durationMs, hasAudio: entity.hasAudio, frames: entity.frameHashSequence?.length || 0, hasAudioFp: !!entity.audioFingerprint });
-			} else {
-				entity.hasAudio = false;
-				console.log('[fingerprint] remote unavailable');
+				console.log(`[fingerprint] ${provider.name}`, { durationMs: entity.durationMs, hasAudio: entity.hasAudio, frames: entity.frameHashSequence?.length || 0, hasAudioFp: !!entity.audioFingerprint });
+				return entity;
+			} catch (e) {
+				console.log(`[fingerprint] ${provider.name} error`, (e as any)?.message || e);
 			}
-		} catch (e) {
-			console.log('[fingerprint] error', (e as any)?.message || e);
-			entity.hasAudio = false;
 		}
+		entity.hasAudio = false;
 		return entity;
 	}
 
@@ -291,121 +323,572 @@ export class FilesService {
 		});
 	}
 
-	private ingestJobs: Map<string, any> = new Map();
+	private static readonly MAX_INGEST_ATTEMPTS = 3;
+	private static readonly DEFAULT_INGEST_CONCURRENCY = 3;
+	// Byte counters change per chunk; only write them to the DB this often
+	private static readonly INGEST_PROGRESS_FLUSH_MS = 1000;
+	// Live subscribers get byte progress more often than the DB, but still not per chunk
+	private static readonly INGEST_PROGRESS_EMIT_MS = 250;
+	// Jobs being worked on by this process, so status reads see live byte counters
+	private activeIngestJobs: Map<string, IngestJobEntity> = new Map();
+	private ingestAbortControllers: Map<string, AbortController> = new Map();
+	// Jobs waiting for a worker slot; they stay pending until one frees up
+	private queuedIngestJobs: IngestJobEntity[] = [];
+	private runningIngestWorkers = 0;
+	private ingestProgressFlushedAt: Map<string, number> = new Map();
+	private ingestProgressEmittedAt: Map<string, number> = new Map();
+
+	onApplicationBootstrap() {
+		// Don't hold up startup; recovery just re-queues work in the background
+		this.recoverIngestJobs().catch((e) => console.error('[ingest] recovery failed', (e as any)?.message || e));
+		this.purgeExpiredPendingUploads().catch((e) => console.error('[files] pending upload cleanup failed', (e as any)?.message || e));
+		this.prepareSearchIndex().catch((e) => console.error('[files] search index setup failed', (e as any)?.message || e));
+	}
 
-	async startIngestJob(url: string, ownerId: string, tags?: string[]) {
-		const jobId = uuidv4();
-		const record = { id: jobId, state: 'pending', totalBytes: 0, downloadedBytes: 0, uploadedBytes: 0, ownerId, error: null as string | null, fileId: null as string | null, ext: '' as string, mimeType: null as string | null, sourceUrl: url, providedUrl: url, resolvedUrl: null as string | null, finalUrl: null as string | null };
-		this.ingestJobs.set(jobId, record);
+	// Jobs still marked active at startup were interrupted by a crash or deploy: retry them or give up
+	private async recoverIngestJobs(): Promise<void> {
+		const stale = await this.ingestJobRepository.find({ where: { state: In(ACTIVE_INGEST_STATES) }, order: { createdAt: 'ASC' } });
+		if (stale.length === 0) return;
+		console.log('[ingest] recovering interrupted jobs:', stale.length);
+		for (const job of stale) {
+			if (this.activeIngestJobs.has(job.id)) continue;
+			if (job.attempts >= FilesService.MAX_INGEST_ATTEMPTS) {
+				await this.updateIngestJob(job, { state: 'error', error: 'Interrupted by server restart', finishedAt: new Date() });
+				try { await this.notificationsService.create(job.ownerId, 'Download failed', { sourceUrl: job.providedUrl, jobId: job.id, error: job.error }); } catch {}
+				continue;
+			}
+			await this.updateIngestJob(job, { state: 'pending', totalBytes: 0, downloadedBytes: 0, uploadedBytes: 0 });
+			this.queueIngestJob(job);
+		}
+	}
 
-		(async () => {
-			try {
-				record.state = 'resolving';
-				const mediaUrl = await this.resolveMediaUrl(url);
-				record.resolvedUrl = mediaUrl;
-				// Prefer non-silent Redgifs variant when applicable
-				let effectiveUrl = mediaUrl;
+	private async updateIngestJob(job: IngestJobEntity, patch: Partial<IngestJobEntity>): Promise<void> {
+		// A cancel is recorded when it's requested; a worker still finishing its current step must not undo it
+		if (job.state === 'cancelled') return;
+		Object.assign(job, patch);
+		await this.ingestJobRepository.update(job.id, patch);
+		this.ingestEvents.emit({ type: patch.state ? 'state' : 'progress', ownerId: job.ownerId, jobId: job.id, status: this.toIngestStatus(job) });
+	}
+
+	private reportIngestBytes(job: IngestJobEntity, patch: Partial<Pick<IngestJobEntity, 'totalBytes' | 'downloadedBytes' | 'uploadedBytes'>>): void {
+		Object.assign(job, patch);
+		const now = Date.now();
+		if (now - (this.ingestProgressEmittedAt.get(job.id) ?? 0) >= FilesService.INGEST_PROGRESS_EMIT_MS) {
+			this.ingestProgressEmittedAt.set(job.id, now);
+			this.ingestEvents.emit({ type: 'progress', ownerId: job.ownerId, jobId: job.id, status: this.toIngestStatus(job) });
+		}
+		if (now - (this.ingestProgressFlushedAt.get(job.id) ?? 0) < FilesService.INGEST_PROGRESS_FLUSH_MS) return;
+		this.ingestProgressFlushedAt.set(job.id, now);
+		this.ingestJobRepository.update(job.id, { totalBytes: job.totalBytes, downloadedBytes: job.downloadedBytes, uploadedBytes: job.uploadedBytes })
+			.catch((e) => console.warn('[ingest] progress write failed', (e as any)?.message || e));
+	}
+
+	async startIngestJob(url: string, ownerId: string, tags?: string[], options: { title?: string | null; batchId?: string } = {}) {
+		const job = await this.ingestJobRepository.save(this.ingestJobRepository.create({ ownerId, providedUrl: url, tags: tags ?? null, title: options.title ?? null, batchId: options.batchId ?? null, state: 'pending' }));
+		this.queueIngestJob(job);
+		return { jobId: job.id };
+	}
+
+	// INGEST_CONCURRENCY caps how many jobs download, mux and upload at once in this process
+	private get ingestConcurrency(): number {
+		const configured = Number(this.config.get<string>('INGEST_CONCURRENCY'));
+		return Number.isInteger(configured) && configured > 0 ? configured : FilesService.DEFAULT_INGEST_CONCURRENCY;
+	}
+
+	private queueIngestJob(job: IngestJobEntity): void {
+		this.ingestAbortControllers.set(job.id, new AbortController());
+		this.queuedIngestJobs.push(job);
+		this.drainIngestQueue();
+	}
+
+	private drainIngestQueue(): void {
+		while (this.runningIngestWorkers < this.ingestConcurrency && this.queuedIngestJobs.length > 0) {
+			const job = this.queuedIngestJobs.shift()!;
+			const controller = this.ingestAbortControllers.get(job.id);
+			// Cancelled while it was still waiting
+			if (!controller || controller.signal.aborted) {
+				this.ingestAbortControllers.delete(job.id);
+				continue;
+			}
+			this.runningIngestWorkers++;
+			void this.runIngestJob(job, controller.signal).finally(() => {
+				this.runningIngestWorkers--;
+				this.ingestAbortControllers.delete(job.id);
+				this.drainIngestQueue();
+			});
+		}
+	}
+
+	async cancelIngestJob(jobId: string, ownerId: string): Promise<IngestJobStatus> {
+		const queued = this.queuedIngestJobs.find((j) => j.id === jobId);
+		const job = this.activeIngestJobs.get(jobId) ?? queued ?? await this.ingestJobRepository.findOne({ where: { id: jobId, ownerId } });
+		if (!job || job.ownerId !== ownerId) throw new HttpException('Job not found', HttpStatus.NOT_FOUND);
+		if (TERMINAL_INGEST_STATES.includes(job.state)) throw new HttpException(`Job already ${job.state}`, HttpStatus.CONFLICT);
+		// By then the file row is being written; cancelling would leave a half-saved file
+		if (job.state === 'saving') throw new HttpException('Job is already saving its file and can no longer be cancelled', HttpStatus.CONFLICT);
+		// Resolvers don't take the signal, so a running worker may only notice once its current step returns; it then
+		// cleans up after itself. A queued job is dropped by drainIngestQueue
+		this.ingestAbortControllers.get(jobId)?.abort();
+		await this.updateIngestJob(job, { state: 'cancelled', error: null, finishedAt: new Date() });
+		return this.toIngestStatus(job);
+	}
+
+	async listIngestJobs(ownerId: string, options: { states?: IngestJobState[]; limit?: number; offset?: number } = {}) {
+		const limit = Math.min(Math.max(options.limit ?? 20, 1), 100);
+		const offset = Math.max(options.offset ?? 0, 0);
+		const [rows, total] = await this.ingestJobRepository.findAndCount({
+			where: { ownerId, ...(options.states?.length ? { state: In(options.states) } : {}) },
+			order: { createdAt: 'DESC' },
+			take: limit,
+			skip: offset,
+		});
+		return { items: rows.map((j) => this.toIngestStatus(this.activeIngestJobs.get(j.id) ?? j)), total, limit, offset };
+	}
+
+	private static readonly MAX_BATCH_ITEMS = 200;
+
+	private normalizeIngestUrl(raw: string): string {
+		try {
+			const u = new URL(raw.trim());
+			u.hash = '';
+			u.hostname = u.hostname.toLowerCase();
+			return u.toString().replace(/\/$/, '');
+		} catch {
+			return raw.trim();
+		}
+	}
+
+	async startIngestBatch(items: Array<{ url: string; tags?: string[]; title?: string | null }>, ownerId: string) {
+		if (!Array.isArray(items) || items.length === 0) throw new HttpException('items must be a non-empty array', HttpStatus.BAD_REQUEST);
+		if (items.length > FilesService.MAX_BATCH_ITEMS) throw new HttpException(`At most ${FilesService.MAX_BATCH_ITEMS} items per batch`, HttpStatus.BAD_REQUEST);
+		if (items.some((i) => !i || typeof i.url !== 'string' || !i.url.trim())) throw new HttpException('Every item needs a url', HttpStatus.BAD_REQUEST);
+
+		// Anything the user already ingested from the same link is skipped rather than downloaded again
+		const urls = items.map((i) => i.url.trim());
+		const existing = await this.fileRepository.find({ where: { ownerId, sourceUrl: In([...urls, ...urls.map((u) => this.normalizeIngestUrl(u))]) }, select: { id: true, sourceUrl: true } });
+		const existingByUrl = new Map<string, string>();
+		for (const f of existing) { if (f.sourceUrl) existingByUrl.set(this.normalizeIngestUrl(f.sourceUrl), f.id); }
+
+		const seen = new Set<string>();
+		const batchItems: IngestBatchItem[] = items.map((i) => {
+			const url = i.url.trim();
+			const key = this.normalizeIngestUrl(url);
+			const item: IngestBatchItem = { url, tags: i.tags?.length ? i.tags : null, title: i.title?.trim() || null, jobId: null, skipped: null };
+			if (seen.has(key)) {
+				item.skipped = 'duplicate_in_batch';
+			} else if (existingByUrl.has(key)) {
+				item.skipped = 'already_in_library';
+				item.duplicateOfFileId = existingByUrl.get(key);
+			}
+			seen.add(key);
+			return item;
+		});
+
+		const batch = await this.ingestBatchRepository.save(this.ingestBatchRepository.create({ ownerId, items: batchItems }));
+		for (const item of batch.items) {
+			if (item.skipped) continue;
+			const { jobId } = await this.startIngestJob(item.url, ownerId, item.tags ?? undefined, { title: item.title, batchId: batch.id });
+			item.jobId = jobId;
+		}
+		await this.ingestBatchRepository.update(batch.id, { items: batch.items });
+		return await this.getIngestBatchStatus(batch.id, ownerId);
+	}
+
+	async getIngestBatchStatus(batchId: string, ownerId: string) {
+		const batch = await this.ingestBatchRepository.findOne({ where: { id: batchId, ownerId } });
+		if (!batch) throw new Error('Batch not found');
+		const jobs = await this.ingestJobRepository.find({ where: { batchId, ownerId } });
+		const jobsById = new Map(jobs.map((j) => [j.id, this.activeIngestJobs.get(j.id) ?? j]));
+
+		const totals = { total: batch.items.length, queued: 0, active: 0, done: 0, failed: 0, cancelled: 0, skippedDuplicate: 0 };
+		const items = batch.items.map((item, index) => {
+			const job = item.jobId ? jobsById.get(item.jobId) : undefined;
+			const status = job ? this.toIngestStatus(job) : null;
+			let state: IngestJobState | 'skipped' = status?.state ?? 'pending';
+			let duplicateOfFileId = item.duplicateOfFileId ?? null;
+			if (item.skipped) {
+				state = 'skipped';
+			} else if (job?.duplicateOfFileId) {
+				// The download finished but matched an existing file by hash
+				state = 'skipped';
+				duplicateOfFileId = job.duplicateOfFileId;
+			}
+			if (state === 'skipped') totals.skippedDuplicate++;
+			else if (state === 'done') totals.done++;
+			else if (state === 'error') totals.failed++;
+			else if (state === 'cancelled') totals.cancelled++;
+			else if (state === 'pending') totals.queued++;
+			else totals.active++;
+			return {
+				index,
+				url: item.url,
+				title: item.title ?? null,
+				tags: item.tags ?? [],
+				jobId: item.jobId ?? null,
+				state,
+				skipReason: item.skipped ?? (job?.duplicateOfFileId ? 'duplicate_file' : null),
+				duplicateOfFileId,
+				fileId: status?.fileId ?? null,
+				error: status && !job?.duplicateOfFileId ? status.error : null,
+				totalBytes: status?.totalBytes ?? 0,
+				downloadedBytes: status?.downloadedBytes ?? 0,
+				uploadedBytes: status?.uploadedBytes ?? 0,
+			};
+		});
+		const finished = totals.done + totals.failed + totals.cancelled + totals.skippedDuplicate === totals.total;
+		return { id: batch.id, state: finished ? 'done' : 'running', createdAt: batch.createdAt.toISOString(), totals, items };
+	}
+
+	private async runIngestJob(job: IngestJobEntity, signal: AbortSignal): Promise<void> {
+		const url = job.providedUrl;
+		const ownerId = job.ownerId;
+		const jobId = job.id;
+		this.activeIngestJobs.set(jobId, job);
+		// Per-item scratch state the catch block needs to clean up after a failure or cancel
+		const current: IngestItemProgress = { handedOff: false };
+		try {
+			await this.updateIngestJob(job, { state: 'resolving', attempts: job.attempts + 1, startedAt: new Date(), error: null, duplicateOfFileId: null, details: null, fileId: null, fileIds: null, totalBytes: 0, downloadedBytes: 0, uploadedBytes: 0 });
+			const media = await this.resolveMedia(url);
+			signal.throwIfAborted();
+			const multi = media.length > 1;
+			let ext = '';
+			try { ext = path.extname(new URL(media[0].url).pathname) || ''; } catch {}
+			await this.updateIngestJob(job, { state: 'downloading', resolvedUrl: media[0].url, ext, details: { ...(media[0].resolver ? { resolver: media[0].resolver } : {}), ...(multi ? { items: [] } : {}) } });
+
+			const fileIds: string[] = [];
+			let firstDuplicate: string | null = null;
+			for (let index = 0; index < media.length; index++) {
+				Object.assign(current, { tempFilePath: undefined, uploadedKey: undefined, handedOff: false });
 				try {
-					const mu = new URL(effectiveUrl);
-					if (mu.hostname.toLowerCase() === 'media.redgifs.com' && /-silent\.mp4$/i.test(mu.pathname)) {
-						const nonSilent = effectiveUrl.replace(/-silent(\.mp4)$/i, '$1');
-						try {
-							const head = await axios.head(nonSilent, { timeout: 4000, headers: { 'User-Agent': 'Mozilla/5.0', Referer: 'https://www.redgifs.com/' } });
-							if (head.status >= 200 && head.status < 400) {
-								effectiveUrl = nonSilent;
-							}
-						} catch {}
+					const fileId = await this.ingestMediaItem(job, media[index], multi ? index : null, signal, current);
+					fileIds.push(fileId);
+					if (multi) await this.updateIngestJob(job, { fileIds: [...fileIds], details: { ...job.details, items: [...(job.details?.items ?? []), { index, url: media[index].url, fileId }] } });
+				} catch (e) {
+					// A gallery that partly overlaps the library still ingests its new items
+					const duplicateOfFileId = this.duplicateFileIdOf(e);
+					if (!multi || !duplicateOfFileId || signal.aborted) throw e;
+					firstDuplicate ??= duplicateOfFileId;
+					await this.updateIngestJob(job, { details: { ...job.details, items: [...(job.details?.items ?? []), { index, url: media[index].url, duplicateOfFileId }] } });
+				}
+			}
+			if (fileIds.length === 0) {
+				throw new HttpException({ message: 'Every item in this post was already uploaded.', fileId: firstDuplicate }, HttpStatus.CONFLICT);
+			}
+			await this.updateIngestJob(job, { state: 'done', fileId: fileIds[0], fileIds, finishedAt: new Date() });
+		} catch (e) {
+			if (signal.aborted && !current.handedOff) {
+				try { await this.updateIngestJob(job, { state: 'cancelled', error: null, finishedAt: new Date() }); } catch {}
+			} else {
+				const error = (e as any)?.message || String(e);
+				const duplicateOfFileId = this.duplicateFileIdOf(e);
+				try { await this.updateIngestJob(job, { state: 'error', error, duplicateOfFileId, finishedAt: new Date() }); } catch {}
+				try { await this.notificationsService.create(ownerId, 'Download failed', { sourceUrl: url, jobId, error }); } catch {}
+			}
+			// The object belongs to a file only if storeFile got as far as saving its row
+			if (current.uploadedKey) {
+				try {
+					if (!(await this.fileRepository.exists({ where: { filename: current.uploadedKey } }))) await this.storage.deleteFile(current.uploadedKey);
+				} catch {}
+			}
+			if (current.tempFilePath && !current.handedOff) { try { fs.unlinkSync(current.tempFilePath); } catch {} }
+		} finally {
+			this.activeIngestJobs.delete(jobId);
+			this.ingestProgressFlushedAt.delete(jobId);
+			this.ingestProgressEmittedAt.delete(jobId);
+		}
+	}
+
+	private duplicateFileIdOf(e: unknown): string | null {
+		return (e instanceof HttpException && e.getStatus() === HttpStatus.CONFLICT) ? ((e.getResponse() as any)?.fileId ?? null) : null;
+	}
+
+	// Downloads, uploads and saves one resolved item; byte counters accumulate across the items of a job
+	private async ingestMediaItem(job: IngestJobEntity, item: ResolvedMedia, sourceIndex: number | null, signal: AbortSignal, current: IngestItemProgress): Promise<string> {
+		const baseTotal = job.totalBytes;
+		const baseDownloaded = job.downloadedBytes;
+		const baseUploaded = job.uploadedBytes;
+		const mediaUrl = item.url;
+		// Prefer non-silent Redgifs variant when applicable
+		let effectiveUrl = mediaUrl;
+		try {
+			const mu = new URL(effectiveUrl);
+			if (mu.hostname.toLowerCase() === 'media.redgifs.com' && /-silent\.mp4$/i.test(mu.pathname)) {
+				const nonSilent = effectiveUrl.replace(/-silent(\.mp4)$/i, '$1');
+				try {
+					const head = await axios.head(nonSilent, { timeout: 4000, headers: { 'User-Agent': 'Mozilla/5.0', Referer: 'https://www.redgifs.com/' } });
+					if (head.status >= 200 && head.status < 400) {
+						effectiveUrl = nonSilent;
 					}
 				} catch {}
-				try { record.ext = path.extname(new URL(effectiveUrl).pathname) || ''; } catch {}
-				record.state = 'downloading';
-				const politeHeaders = this.buildPoliteHeaders(effectiveUrl);
-				const resp = await this.fetchStreamWithBackoff(effectiveUrl, politeHeaders, 3);
-				record.totalBytes = Number(resp.headers?.['content-length'] || 0);
-				const headerMime: string | undefined = (resp.headers?.['content-type'] as any) || undefined;
-				if (headerMime) { record.mimeType = headerMime; }
-				const tempDir = path.join(process.cwd(), 'temp'); if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
-				const fileId = uuidv4();
-				const urlExt = path.extname(new URL(effectiveUrl).pathname) || '.bin';
-				const tempFilePath = path.join(tempDir, `${fileId}${urlExt}`);
-				const writer = fs.createWriteStream(tempFilePath);
-				record.finalUrl = effectiveUrl;
-				resp.data.on('data', (chunk: Buffer) => { record.downloadedBytes += chunk.length; });
-				resp.data.pipe(writer);
-				await new Promise<void>((resolve, reject) => { writer.on('finish', () => resolve()); writer.on('error', reject); });
+			}
+		} catch {}
+		const tempDir = path.join(process.cwd(), 'temp'); if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
+		const fileId = uuidv4();
+		let urlExt = path.extname(new URL(effectiveUrl).pathname) || '.bin';
+		let originalName = path.basename(new URL(effectiveUrl).pathname);
+		let manifestKind = this.manifestDownloader.detect(effectiveUrl);
+		let resp: any;
+		if (!manifestKind && !item.audioUrl) {
+			const politeHeaders = this.mediaFetcher.buildPoliteHeaders(effectiveUrl);
+			resp = await this.mediaFetcher.fetchStreamWithBackoff(effectiveUrl, politeHeaders, 3, signal);
+			const headerMime: string | undefined = (resp.headers?.['content-type'] as any) || undefined;
+			// Some hosts serve playlists from extension-less URLs; only the content-type gives them away
+			manifestKind = this.manifestDownloader.detect(effectiveUrl, headerMime);
+			if (manifestKind) {
+				resp.data.destroy();
+			} else {
+				await this.updateIngestJob(job, { state: 'downloading', totalBytes: baseTotal + Number(resp.headers?.['content-length'] || 0), finalUrl: effectiveUrl, ...(headerMime ? { mimeType: headerMime } : {}) });
+			}
+		}
+		if (manifestKind || item.audioUrl) {
+			// Segmented streams and split audio/video tracks are stitched into a single MP4 before they reach storage
+			await this.updateIngestJob(job, { state: 'downloading', finalUrl: effectiveUrl, ext: '.mp4', mimeType: 'video/mp4' });
+			const options = { signal, onBytes: (n: number) => this.reportIngestBytes(job, { downloadedBytes: job.downloadedBytes + n }) };
+			const result = manifestKind
+				? await this.manifestDownloader.download(effectiveUrl, manifestKind, options)
+				: await this.manifestDownloader.downloadTracks(effectiveUrl, item.audioUrl!, options);
+			current.tempFilePath = result.path;
+			urlExt = '.mp4';
+			originalName = `${path.basename(originalName, path.extname(originalName)) || 'stream'}.mp4`;
+			await this.updateIngestJob(job, { details: { ...job.details, tracks: [...(job.details?.tracks ?? []), ...result.tracks] } });
+		} else {
+			current.tempFilePath = path.join(tempDir, `${fileId}${urlExt}`);
+			const writer = fs.createWriteStream(current.tempFilePath);
+			resp.data.on('data', (chunk: Buffer) => { this.reportIngestBytes(job, { downloadedBytes: job.downloadedBytes + chunk.length }); });
+			resp.data.pipe(writer);
+			await new Promise<void>((resolve, reject) => {
+				writer.on('finish', () => resolve());
+				writer.on('error', reject);
+				// An aborted axios stream errors out without ever finishing the writer
+				resp.data.on('error', (err: any) => { writer.destroy(); reject(err); });
+			});
+		}
+		signal.throwIfAborted();
+		const tempFilePath = current.tempFilePath;
 
-				const stats = fs.statSync(tempFilePath);
-				if (stats.size === 0) {
-					record.state = 'error';
-					record.error = 'Downloaded file is empty (0 bytes)';
-					try { await this.notificationsService.create(ownerId, 'Download failed: file is empty', { sourceUrl: url, jobId }); } catch {}
-					return;
-				}
+		const stats = fs.statSync(tempFilePath);
+		if (stats.size === 0) throw new Error('Downloaded file is empty (0 bytes)');
 
-				record.state = 'uploading';
-				if (!record.totalBytes) record.totalBytes = stats.size;
+		await this.updateIngestJob(job, { state: 'uploading', downloadedBytes: baseDownloaded + stats.size, totalBytes: job.totalBytes > baseTotal ? job.totalBytes : baseTotal + stats.size });
 
-				// Derive a sensible content-type from extension or magic bytes
-				let uploadContentType = this.getMimeTypeFromExtension(urlExt) || record.mimeType || 'application/octet-stream';
-				if (uploadContentType === 'application/octet-stream') {
-					const sniff = this.detectMimeFromMagic(tempFilePath);
-					if (sniff) {
-						uploadContentType = sniff.mime;
-					}
-				}
-				record.mimeType = uploadContentType;
-				const s3Key = `${fileId}${urlExt}`;
-				await this.s3Service.uploadFile(tempFilePath, s3Key, uploadContentType, (bytes) => { record.uploadedBytes = bytes; });
-
-				record.state = 'saving';
-				const mockFile: Express.Multer.File = { fieldname: 'file', originalname: path.basename(new URL(effectiveUrl).pathname), encoding: '7bit', mimetype: uploadContentType, size: stats.size, destination: tempDir, filename: path.basename(tempFilePath), path: tempFilePath, buffer: Buffer.alloc(0), stream: null as any };
-				const saved = await this.uploadFile(mockFile, ownerId, url, tags);
-				record.fileId = saved.file.id;
-				record.state = 'done';
-			} catch (e) {
-				record.state = 'error';
-				record.error = (e as any)?.message || String(e);
-				try { await this.notificationsService.create(ownerId, 'Download failed', { sourceUrl: url, jobId, error: record.error }); } catch {}
-			} finally {
-				// temp cleanup handled inside uploadFile background; best-effort here
+		// Derive a sensible content-type from extension or magic bytes
+		let uploadContentType = this.getMimeTypeFromExtension(urlExt) || job.mimeType || 'application/octet-stream';
+		if (uploadContentType === 'application/octet-stream') {
+			const sniff = this.detectMimeFromMagic(tempFilePath);
+			if (sniff) {
+				uploadContentType = sniff.mime;
 			}
-		})();
+		}
+		job.mimeType = uploadContentType;
+		const s3Key = `${fileId}${urlExt}`;
+		await this.storage.uploadFile(tempFilePath, s3Key, uploadContentType, (bytes) => { this.reportIngestBytes(job, { uploadedBytes: baseUploaded + bytes }); }, signal);
+		current.uploadedKey = s3Key;
+		signal.throwIfAborted();
+
+		await this.updateIngestJob(job, { state: 'saving', mimeType: uploadContentType, uploadedBytes: baseUploaded + stats.size });
+		const mockFile: Express.Multer.File = { fieldname: 'file', originalname: originalName, encoding: '7bit', mimetype: uploadContentType, size: stats.size, destination: tempDir, filename: path.basename(tempFilePath), path: tempFilePath, buffer: Buffer.alloc(0), stream: null as any };
+		// storeFile owns the temp file from here on (it removes it on duplicate and after background processing);
+		// it adopts the object already in storage, and deletes it itself when the item turns out to be a duplicate
+		signal.throwIfAborted();
+		current.handedOff = true;
+		const saved = await this.storeFile(mockFile, job.ownerId, { sourceUrl: job.providedUrl, tags: job.tags ?? undefined, title: job.title ?? undefined, sourceIndex, stored: { fileId, key: s3Key } });
+		return saved.file.id;
+	}
+
+	private toIngestStatus(job: IngestJobEntity): IngestJobStatus {
+		// bigint columns come back from pg as strings
+		return {
+			id: job.id,
+			state: job.state,
+			totalBytes: Number(job.totalBytes) || 0,
+			downloadedBytes: Number(job.downloadedBytes) || 0,
+			uploadedBytes: Number(job.uploadedBytes) || 0,
+			fileId: job.fileId ?? null,
+			fileIds: job.fileIds ?? (job.fileId ? [job.fileId] : []),
+			duplicateOfFileId: job.duplicateOfFileId ?? null,
+			batchId: job.batchId ?? null,
+			title: job.title ?? null,
+			error: job.error ?? null,
+			ext: job.ext ?? '',
+			mimeType: job.mimeType ?? null,
+			sourceUrl: job.providedUrl,
+			providedUrl: job.providedUrl,
+			resolvedUrl: job.resolvedUrl ?? null,
+			finalUrl: job.finalUrl ?? null,
+			details: job.details ?? null,
+			attempts: job.attempts,
+			createdAt: job.createdAt?.toISOString(),
+			updatedAt: job.updatedAt?.toISOString(),
+			startedAt: job.startedAt ? job.startedAt.toISOString() : null,
+			finishedAt: job.finishedAt ? job.finishedAt.toISOString() : null,
+		};
+	}
+
+	async getIngestStatus(jobId: string, ownerId: string): Promise<IngestJobStatus> {
+		const live = this.activeIngestJobs.get(jobId);
+		if (live) {
+			if (live.ownerId !== ownerId) throw new Error('Job not found');
+			return this.toIngestStatus(live);
+		}
+		const rec = await this.ingestJobRepository.findOne({ where: { id: jobId, ownerId } });
+		if (!rec) throw new Error('Job not found');
+		return this.toIngestStatus(rec);
+	}
+
+	// Current snapshot first, then live updates until the job reaches a terminal state
+	watchIngestJob(jobId: string, ownerId: string): Observable<IngestEvent> {
+		return from(this.getIngestStatus(jobId, ownerId)).pipe(
+			switchMap((status) => {
+				const snapshot = of<IngestEvent>({ type: 'state', ownerId, jobId, status });
+				if (TERMINAL_INGEST_STATES.includes(status.state)) return snapshot;
+				const updates = this.ingestEvents.forJob(jobId, ownerId).pipe(
+					takeWhile((e) => !TERMINAL_INGEST_STATES.includes(e.status.state), true),
+				);
+				return concat(snapshot, updates);
+			}),
+		);
+	}
+
+	watchIngestJobs(ownerId: string): Observable<IngestEvent> {
+		return this.ingestEvents.forOwner(ownerId);
+	}
 
-		return { jobId };
+	private static readonly PRESIGN_TTL_SECONDS = 3600;
+	// Unconfirmed uploads are cleaned up after this long
+	private static readonly PENDING_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+	private static readonly MAX_DIRECT_UPLOAD_BYTES = 20 * 1024 * 1024 * 1024;
+	private static readonly MULTIPART_THRESHOLD_BYTES = 100 * 1024 * 1024;
+	private static readonly MULTIPART_PART_BYTES = 64 * 1024 * 1024;
+
+	async createPresignedUpload(ownerId: string, input: { filename: string; contentType?: string; size: number; tags?: string[]; title?: string | null }): Promise<PresignedUpload> {
+		const size = Number(input.size);
+		if (!input.filename?.trim()) throw new HttpException('filename is required', HttpStatus.BAD_REQUEST);
+		if (!Number.isFinite(size) || size <= 0) throw new HttpException('size must be a positive number of bytes', HttpStatus.BAD_REQUEST);
+		if (size > FilesService.MAX_DIRECT_UPLOAD_BYTES) throw new HttpException('File is too large', HttpStatus.PAYLOAD_TOO_LARGE);
+		this.purgeExpiredPendingUploads(ownerId).catch((e) => console.error('[files] pending upload cleanup failed', (e as any)?.message || e));
+
+		const originalName = path.basename(input.filename.trim());
+		const ext = path.extname(originalName).toLowerCase();
+		const isGeneric = !input.contentType || input.contentType === 'application/octet-stream';
+		const mimeType = isGeneric ? (this.getMimeTypeFromExtension(ext) || 'application/octet-stream') : input.contentType!;
+		const fileId = uuidv4();
+		const key = `${fileId}${ext}`;
+		const ttl = FilesService.PRESIGN_TTL_SECONDS;
+		const expiresAt = new Date(Date.now() + FilesService.PENDING_UPLOAD_TTL_MS);
+		const base = { fileId, key, expiresAt: new Date(Date.now() + ttl * 1000).toISOString() };
+
+		// Backends without multipart uploads take any size as a single PUT
+		if (size <= FilesService.MULTIPART_THRESHOLD_BYTES || !this.storage.createMultipartUpload || !this.storage.getPresignedPartUrl) {
+			const url = await this.storage.getPresignedPutUrl(key, mimeType, ttl);
+			await this.pendingUploadRepository.save(this.pendingUploadRepository.create({ id: fileId, ownerId, key, originalName, mimeType, size, tags: input.tags ?? null, title: input.title ?? null, expiresAt }));
+			return { ...base, method: 'PUT', url, headers: { 'Content-Type': mimeType } };
+		}
+
+		const partSize = FilesService.MULTIPART_PART_BYTES;
+		const partCount = Math.ceil(size / partSize);
+		const uploadId = await this.storage.createMultipartUpload(key, mimeType);
+		const parts = await Promise.all(Array.from({ length: partCount }, async (_, i) => ({ partNumber: i + 1, url: await this.storage.getPresignedPartUrl!(key, uploadId, i + 1, ttl) })));
+		await this.pendingUploadRepository.save(this.pendingUploadRepository.create({ id: fileId, ownerId, key, originalName, mimeType, size, uploadId, partSize, tags: input.tags ?? null, title: input.title ?? null, expiresAt }));
+		return { ...base, method: 'MULTIPART', multipart: { uploadId, partSize, parts } };
 	}
 
-	async getIngestStatus(jobId: string, ownerId: string) {
-		const rec = this.ingestJobs.get(jobId);
-		if (!rec || rec.ownerId !== ownerId) throw new Error('Job not found');
-		return { id: rec.id, state: rec.state, totalBytes: rec.totalBytes, downloadedBytes: rec.downloadedBytes, uploadedBytes: rec.uploadedBytes, fileId: rec.fileId, error: rec.error, ext: rec.ext, mimeType: rec.mimeType, sourceUrl: rec.sourceUrl, providedUrl: rec.providedUrl, resolvedUrl: rec.resolvedUrl, finalUrl: rec.finalUrl };
+	// Pulls the object back down once so it goes through the same hashing/duplicate/thumbnail pipeline as a regular upload
+	async completePresignedUpload(fileId: string, ownerId: string, parts?: Array<{ partNumber: number; etag: string }>): Promise<{ file: FileRecord; match?: { id: string; sourceUrl?: string } }> {
+		const pending = await this.pendingUploadRepository.findOne({ where: { id: fileId, ownerId } });
+		if (!pending) throw new HttpException('Upload not found', HttpStatus.NOT_FOUND);
+
+		if (pending.uploadId) {
+			if (!this.storage.completeMultipartUpload) throw new HttpException('Multipart uploads are not supported by this storage backend', HttpStatus.BAD_REQUEST);
+			if (!Array.isArray(parts) || parts.length === 0) throw new HttpException('parts are required to complete a multipart upload', HttpStatus.BAD_REQUEST);
+			try {
+				await this.storage.completeMultipartUpload(pending.key, pending.uploadId, parts);
+			} catch (e: any) {
+				throw new HttpException(`Could not complete multipart upload: ${e?.message || e}`, HttpStatus.BAD_REQUEST);
+			}
+			// A completed multipart upload can't be aborted any more; from here on only the object itself needs cleaning up
+			await this.pendingUploadRepository.update(pending.id, { uploadId: null });
+		}
+
+		const head = await this.storage.headObject(pending.key);
+		if (!head) throw new HttpException('Uploaded object not found; PUT the file before completing', HttpStatus.BAD_REQUEST);
+		if (head.contentLength !== Number(pending.size)) {
+			await this.discardPendingUpload(pending);
+			throw new HttpException(`Uploaded size ${head.contentLength} does not match the declared ${pending.size} bytes`, HttpStatus.BAD_REQUEST);
+		}
+
+		const tempDir = path.join(process.cwd(), 'temp');
+		if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
+		const tempFilePath = path.join(tempDir, pending.key);
+		try {
+			await this.storage.downloadToFile(pending.key, tempFilePath);
+		} catch (e: any) {
+			try { fs.unlinkSync(tempFilePath); } catch {}
+			throw new Error(`Failed to fetch uploaded object: ${e?.message || e}`);
+		}
+		await this.pendingUploadRepository.delete(pending.id);
+		const mockFile: Express.Multer.File = { fieldname: 'file', originalname: pending.originalName, encoding: '7bit', mimetype: head.contentType || pending.mimeType, size: head.contentLength, destination: tempDir, filename: pending.key, path: tempFilePath, buffer: Buffer.alloc(0), stream: null as any };
+		try {
+			return await this.storeFile(mockFile, ownerId, { tags: pending.tags ?? undefined, title: pending.title, stored: { fileId: pending.id, key: pending.key } });
+		} catch (e) {
+			// With the pending row gone nothing else would ever clean up the object, unless a file row already owns it
+			if (!(await this.fileRepository.exists({ where: { id: pending.id } }))) await this.discardPendingUpload(pending);
+			throw e;
+		}
+	}
+
+	private async discardPendingUpload(pending: PendingUploadEntity): Promise<void> {
+		if (pending.uploadId) { try { await this.storage.abortMultipartUpload?.(pending.key, pending.uploadId); } catch {} }
+		try { await this.storage.deleteFile(pending.key); } catch {}
+		await this.pendingUploadRepository.delete(pending.id);
+	}
+
+	private async purgeExpiredPendingUploads(ownerId?: string): Promise<void> {
+		const expired = await this.pendingUploadRepository.find({ where: { expiresAt: LessThan(new Date()), ...(ownerId ? { ownerId } : {}) } });
+		for (const pending of expired) await this.discardPendingUpload(pending);
 	}
 
-	async uploadFile(file: Express.Multer.File, ownerId: string, sourceUrl?: string, tags?: string[]): Promise<{ file: FileRecord; match?: { id: string; sourceUrl?: string } }> {
-    const fileId = uuidv4();
+	async uploadFile(file: Express.Multer.File, ownerId: string, sourceUrl?: string, tags?: string[], title?: string | null, sourceIndex?: number | null): Promise<{ file: FileRecord; match?: { id: string; sourceUrl?: string } }> {
+		return await this.storeFile(file, ownerId, { sourceUrl, tags, title, sourceIndex });
+	}
+
+	// Shared pipeline for every way a file arrives; `stored` means the client already put the object in storage under that key
+	private async storeFile(file: Express.Multer.File, ownerId: string, options: { sourceUrl?: string; tags?: string[]; title?: string | null; sourceIndex?: number | null; stored?: { fileId: string; key: string } }): Promise<{ file: FileRecord; match?: { id: string; sourceUrl?: string } }> {
+		const { sourceUrl, tags, title, sourceIndex, stored } = options;
+    const fileId = stored?.fileId ?? uuidv4();
     const fileExtension = path.extname(file.originalname);
-    const filename = `${fileId}${fileExtension}`;
+    const filename = stored?.key ?? `${fileId}${fileExtension}`;
 
 		// Prefer a real MIME type; ignore generic octet-stream and fall back to extension
 		const isGeneric = !file.mimetype || file.mimetype === 'application/octet-stream' || file.mimetype === 'binary/octet-stream';
 		const byExt = this.getMimeTypeFromExtension(path.extname(file.originalname));
 		const uploadContentType = isGeneric ? (byExt || 'application/octet-stream') : file.mimetype;
 
-		// Quick duplicate check by combined hash before S3 upload
+		// Quick duplicate check by combined hash before uploading to storage
 		const quick = await this.computeQuickCombinedHash(file.path);
 		const existingFile = await this.fileRepository.findOne({ where: { hash: quick.hash, ownerId } });
     if (existingFile) {
 			try { fs.unlinkSync(file.path); } catch {}
+			if (stored) { try { await this.storage.deleteFile(stored.key); } catch {} }
 			throw new HttpException({ message: 'Duplicate file detected. This file was already uploaded.', fileId: existingFile.id }, HttpStatus.CONFLICT);
 		}
 
-		// Upload media to S3 first
-    let s3Url: string;
+		// Re-encoded, resized or recompressed copies of an image that's already in the library
+		const imageHashes = await this.fileProcessingService.generatePerceptualHash(file.path, uploadContentType);
+		const nearDuplicate = imageHashes ? await this.nearDuplicates.findMatch(ownerId, imageHashes) : null;
+		if (nearDuplicate && this.nearDuplicates.mode === 'reject') {
+			try { fs.unlinkSync(file.path); } catch {}
+			if (stored) { try { await this.storage.deleteFile(stored.key); } catch {} }
+			throw new HttpException({ message: 'A near-identical image is already in your library.', fileId: nearDuplicate.id, distance: nearDuplicate.distance }, HttpStatus.CONFLICT);
+		}
+
+		// Upload media to storage first
+    let storedUrl: string;
     try {
-      s3Url = await this.s3Service.uploadFile(file.path, filename, uploadContentType);
+      storedUrl = stored ? await this.storage.getSignedUrl(filename, 3600) : await this.storage.uploadFile(file.path, filename, uploadContentType);
     } catch (e: any) {
-      console.error('[files] S3 upload failed:', e?.message || e);
+      console.error('[files] storage upload failed:', e?.message || e);
       try { fs.unlinkSync(file.path); } catch {}
-      throw new Error('S3 upload failed');
+      throw new Error('Storage upload failed');
     }
 
 		// Generate thumbnail synchronously for immediate availability
@@ -420,7 +903,7 @@ export class FilesService {
         
         if (thumbnailPath && fs.existsSync(thumbnailPath)) {
           const thumbnailFilename = `thumbnails/${fileId}.jpg`;
-          thumbnailUrl = await this.s3Service.uploadFile(thumbnailPath, thumbnailFilename, 'image/jpeg');
+          thumbnailUrl = await this.storage.uploadFile(thumbnailPath, thumbnailFilename, 'image/jpeg');
           try { fs.unlinkSync(thumbnailPath); } catch {}
         }
       }
@@ -435,14 +918,21 @@ export class FilesService {
       originalName: file.originalname,
       mimeType: uploadContentType,
       size: file.size,
-      url: s3Url,
+      url: storedUrl,
       thumbnailUrl,
       sourceUrl,
-      tags,
+      sourceIndex: sourceIndex ?? null,
+      tags: tags ? normalizeTags(tags) : tags,
+      title: title?.trim() || null,
 			hash: quick.hash,
+			perceptualHash: imageHashes?.perceptualHash ?? null,
+			differenceHash: imageHashes?.differenceHash ?? null,
 			ownerId,
 			hasAudio: false,
-			transcodeStatus: (uploadContentType === 'video/webm') ? 'pending' : null,
+			// Cleared again once probing shows the video plays everywhere as-is
+			transcodeStatus: uploadContentType.startsWith('video/') ? 'pending' : null,
+			storyboardStatus: uploadContentType.startsWith('video/') ? 'pending' : null,
+			previewStatus: uploadContentType.startsWith('video/') ? 'pending' : null,
     });
 
     let savedFile;
@@ -452,6 +942,12 @@ export class FilesService {
       console.error('[files] DB save failed:', e?.message || e);
       throw new Error('DB save failed');
     }
+		await this.refreshSearchVectors([savedFile.id]);
+		if (nearDuplicate) {
+			try {
+				await this.notificationsService.create(ownerId, 'This image looks almost identical to one already in your library.', { fileId: savedFile.id, duplicateOfFileId: nearDuplicate.id, distance: nearDuplicate.distance, matchType: 'near_duplicate' });
+			} catch {}
+		}
 
 		// Background processing (fire-and-forget)
 		(async () => {
@@ -462,7 +958,7 @@ export class FilesService {
 				if (processing.thumbnailPath && fs.existsSync(processing.thumbnailPath)) {
 					try {
 						const thumbnailFilename = `thumbnails/${fileId}.jpg`;
-						updatedThumbUrl = await this.s3Service.uploadFile(processing.thumbnailPath, thumbnailFilename, 'image/jpeg');
+						updatedThumbUrl = await this.storage.uploadFile(processing.thumbnailPath, thumbnailFilename, 'image/jpeg');
 					} finally {
 						try { fs.unlinkSync(processing.thumbnailPath); } catch {}
 					}
@@ -475,22 +971,15 @@ export class FilesService {
           ...(processing.width ? { width: processing.width } : {}),
           ...(processing.height ? { height: processing.height } : {}),
 					...(typeof processing.hasAudio === 'boolean' ? { hasAudio: processing.hasAudio } : {}),
+					...(processing.perceptualHash ? { perceptualHash: processing.perceptualHash, differenceHash: processing.differenceHash ?? null } : {}),
 				});
 
-				// Transcode WEBM to MP4 for mobile compatibility
-				const isWebm = (processing.mimeType || savedFile.mimeType).includes('webm') || savedFile.filename.toLowerCase().endsWith('.webm');
-				if (isWebm) {
-					try {
-						await this.fileRepository.update(savedFile.id, { transcodeStatus: 'processing' });
-						const mp4Path = await this.fileProcessingService.transcodeToMp4(file.path);
-						const mp4Key = `mp4/${savedFile.id}.mp4`;
-						await this.s3Service.uploadFile(mp4Path, mp4Key, 'video/mp4');
-						await this.fileRepository.update(savedFile.id, { mp4Key, transcodeStatus: 'ready' });
-						try { fs.unlinkSync(mp4Path); } catch {}
-					} catch (e) {
-						console.error('Transcode failed', (e as any)?.message || e);
-						await this.fileRepository.update(savedFile.id, { transcodeStatus: 'failed' });
-					}
+				// The MP4 rendition, storyboard, hover preview and HLS ladder wait their turn in the shared media queue
+				// rather than running per upload; they fetch the original themselves, so this temp copy isn't kept for them
+				if ((processing.mimeType || savedFile.mimeType).startsWith('video/')) {
+					void this.transcoder.transcodeUpload(savedFile.id);
+					void this.mediaQueue.run(() => this.generateVideoDerivatives(savedFile.id, processing))
+						.catch((e) => console.error('Video derivatives failed', savedFile.id, (e as any)?.message || e));
 				}
 
 				const withFp = await this.computeAndStoreFingerprints(file.path, { ...savedFile });
@@ -525,11 +1014,95 @@ export class FilesService {
 		return { file: { ...savedFile, uploadedAt: savedFile.uploadedAt.toISOString() } as FileRecord };
 	}
 
+	private async generateVideoDerivatives(fileId: string, media: { width?: number; height?: number; hasAudio?: boolean }): Promise<void> {
+		const file = await this.fileRepository.findOne({ where: { id: fileId } });
+		if (!file) return;
+		const tempDir = path.join(process.cwd(), 'temp');
+		if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
+		const videoPath = path.join(tempDir, `derivatives_${fileId}_${Date.now()}${path.extname(file.filename)}`);
+		try {
+			try {
+				await this.storage.downloadToFile(file.filename, videoPath);
+			} catch (e) {
+				console.error('Fetching the original for storyboard and preview failed', (e as any)?.message || e);
+				await this.fileRepository.update(fileId, { storyboardStatus: 'failed', previewStatus: 'failed' }).catch(() => {});
+				return;
+			}
+			// Each step records its own status, so one failing doesn't mark the others failed
+			const durationSeconds = this.fileProcessingService.probeDurationSeconds(videoPath);
+			await this.generateStoryboard(fileId, videoPath, { ...media, durationSeconds });
+			await this.generateHoverPreview(fileId, videoPath, durationSeconds);
+			if (media.width && media.height && this.hls.shouldGenerate({ ...media, durationSeconds })) {
+				await this.hls.generate(fileId, videoPath, { width: media.width, height: media.height, hasAudio: !!media.hasAudio });
+			}
+		} finally {
+			try { fs.unlinkSync(videoPath); } catch {}
+		}
+	}
+
+	// The stored VTT names the sprite by its bare filename; getStoryboardVtt swaps in a signed URL when serving it
+	private async generateStoryboard(fileId: string, videoPath: string, media: { width?: number; height?: number; durationSeconds?: number }): Promise<void> {
+		let spritePath: string | undefined;
+		const vttPath = path.join(process.cwd(), 'temp', `storyboard_${fileId}.vtt`);
+		try {
+			await this.fileRepository.update(fileId, { storyboardStatus: 'processing' });
+			const layout = planStoryboard(media.durationSeconds ?? 0, media.width ?? 0, media.height ?? 0);
+			if (!layout) throw new Error('Could not probe duration or dimensions');
+			spritePath = await this.fileProcessingService.generateStoryboardSprite(videoPath, layout);
+			fs.writeFileSync(vttPath, buildStoryboardVtt(layout, media.durationSeconds!, `${fileId}.jpg`));
+			await this.storage.uploadFile(spritePath, `storyboards/${fileId}.jpg`, 'image/jpeg');
+			await this.storage.uploadFile(vttPath, `storyboards/${fileId}.vtt`, 'text/vtt');
+			await this.fileRepository.update(fileId, { storyboardStatus: 'ready' });
+		} catch (e) {
+			console.error('Storyboard generation failed', (e as any)?.message || e);
+			await this.fileRepository.update(fileId, { storyboardStatus: 'failed' }).catch(() => {});
+		} finally {
+			if (spritePath) { try { fs.unlinkSync(spritePath); } catch {} }
+			try { fs.unlinkSync(vttPath); } catch {}
+		}
+	}
+
+	private async generateHoverPreview(fileId: string, videoPath: string, durationSeconds?: number): Promise<void> {
+		let previewPath: string | undefined;
+		try {
+			await this.fileRepository.update(fileId, { previewStatus: 'processing' });
+			if (!durationSeconds) throw new Error('Could not probe duration');
+			previewPath = await this.fileProcessingService.generateHoverPreview(videoPath, durationSeconds);
+			await this.storage.uploadFile(previewPath, `previews/${fileId}.mp4`, 'video/mp4');
+			await this.fileRepository.update(fileId, { previewStatus: 'ready' });
+		} catch (e) {
+			console.error('Hover preview generation failed', (e as any)?.message || e);
+			await this.fileRepository.update(fileId, { previewStatus: 'failed' }).catch(() => {});
+		} finally {
+			if (previewPath) { try { fs.unlinkSync(previewPath); } catch {} }
+		}
+	}
+
+	async getStoryboardVtt(id: string, ownerId: string): Promise<string> {
+		const file = await this.fileRepository.findOne({ where: { id, ownerId } });
+		if (!file || file.storyboardStatus !== 'ready') throw new HttpException('Storyboard not found', HttpStatus.NOT_FOUND);
+		const { body } = await this.storage.getObjectStream(`storyboards/${file.id}.vtt`);
+		const chunks: Buffer[] = [];
+		for await (const chunk of body) chunks.push(Buffer.from(chunk));
+		const spriteUrl = await this.storage.getSignedUrl(`storyboards/${file.id}.jpg`, 3600);
+		return Buffer.concat(chunks).toString('utf8').split(`${file.id}.jpg#`).join(`${spriteUrl}#`);
+	}
+
 	async uploadFromUrl(url: string, ownerId: string, tags?: string[]): Promise<{ file: FileRecord; match?: { id: string; sourceUrl?: string } }> {
 		try {
-			const mediaUrl = await this.resolveMediaUrl(url);
-			const politeHeaders = this.buildPoliteHeaders(mediaUrl);
-			const response = await this.fetchStreamWithBackoff(mediaUrl, politeHeaders, 3);
+			// The synchronous endpoint keeps its one-file contract; multi-item posts go through ingest-url
+			const [resolved] = await this.resolveMedia(url);
+			const mediaUrl = resolved.url;
+			const manifestKind = this.manifestDownloader.detect(mediaUrl);
+			if (manifestKind || resolved.audioUrl) {
+				const result = manifestKind ? await this.manifestDownloader.download(mediaUrl, manifestKind) : await this.manifestDownloader.downloadTracks(mediaUrl, resolved.audioUrl!);
+				const stem = path.basename(new URL(mediaUrl).pathname, path.extname(new URL(mediaUrl).pathname)) || 'stream';
+				const size = fs.statSync(result.path).size;
+				const mockFile: Express.Multer.File = { fieldname: 'file', originalname: `${stem}.mp4`, encoding: '7bit', mimetype: 'video/mp4', size, destination: path.dirname(result.path), filename: path.basename(result.path), path: result.path, buffer: Buffer.alloc(0), stream: null as any };
+				return await this.uploadFile(mockFile, ownerId, url, tags);
+			}
+			const politeHeaders = this.mediaFetcher.buildPoliteHeaders(mediaUrl);
+			const response = await this.mediaFetcher.fetchStreamWithBackoff(mediaUrl, politeHeaders, 3);
 			const tempDir = path.join(process.cwd(), 'temp');
 			if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
 	    const fileId = uuidv4();
@@ -558,8 +1131,8 @@ export class FilesService {
 				const tw = html.match(/name=["']twitter:image["']\s+content=["']([^"']+)["']/i) || html.match(/content=["']([^"']+)["']\s+name=["']twitter:image["']/i);
 				const previewUrl: string | undefined = (og?.[1] || tw?.[1]) as string | undefined;
 				if (!previewUrl) throw new Error('No preview image found');
-				const polite = this.buildPoliteHeaders(previewUrl);
-				const img = await this.fetchStreamWithBackoff(previewUrl, polite, 2);
+				const polite = this.mediaFetcher.buildPoliteHeaders(previewUrl);
+				const img = await this.mediaFetcher.fetchStreamWithBackoff(previewUrl, polite, 2);
 				const tempDir = path.join(process.cwd(), 'temp');
 				if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
 				const fileId = uuidv4();
@@ -580,73 +1153,180 @@ export class FilesService {
 		}
 	}
 
-	async getAllFiles(ownerId: string): Promise<FileRecord[]> {
-		const files = await this.fileRepository.find({ where: { ownerId }, order: { uploadedAt: 'DESC' } });
-    const filesWithFreshUrls = await Promise.all(files.map(async (file) => {
-      const url = await this.s3Service.getSignedUrl(file.filename, 3600);
-      let thumbnailUrl = file.thumbnailUrl;
-      if (file.thumbnailUrl) {
-        const thumbnailKey = `thumbnails/${file.id}.jpg`;
-        thumbnailUrl = await this.s3Service.getSignedUrl(thumbnailKey, 3600);
-      }
-			// @ts-ignore new optional mp4Key column
-			const mp4Key: string | undefined = (file as any).mp4Key;
-			let mp4Url: string | undefined = undefined;
-			if (mp4Key) {
-				mp4Url = await this.s3Service.getSignedUrl(mp4Key, 3600);
-			}
-			return { ...file, url, mp4Url, thumbnailUrl, uploadedAt: file.uploadedAt.toISOString() } as FileRecord;
-		}));
-    return filesWithFreshUrls;
-  }
+	private static readonly DEFAULT_PAGE_SIZE = 50;
+	private static readonly MAX_PAGE_SIZE = 200;
+	// Host of "file"."sourceUrl"; filters on it match the host itself and its subdomains, so "reddit.com" also finds "www.reddit.com"
+	private static readonly SOURCE_HOST_SQL = `lower(substring("file"."sourceUrl" from '^[A-Za-z][A-Za-z0-9+.-]*://([^/:?#]+)'))`;
+
+	// Keyset pagination: the cursor carries the last row's sort key and id, so pages stay stable while files are added
+	async listFiles(ownerId: string, query: FileListQuery = {}): Promise<FileListPage> {
+		const limit = Math.min(Math.max(query.limit ?? FilesService.DEFAULT_PAGE_SIZE, 1), FilesService.MAX_PAGE_SIZE);
+		const sort = query.sort ?? 'newest';
+		// Timestamps are truncated to milliseconds so the key survives the round trip through a JS Date in the cursor
+		const sortKeys: Record<FileSort, { expr: string; dir: 'ASC' | 'DESC'; kind: 'date' | 'number' }> = {
+			newest: { expr: `date_trunc('milliseconds', "file"."uploadedAt")`, dir: 'DESC', kind: 'date' },
+			oldest: { expr: `date_trunc('milliseconds', "file"."uploadedAt")`, dir: 'ASC', kind: 'date' },
+			longest: { expr: `COALESCE("file"."durationMs", -1)`, dir: 'DESC', kind: 'number' },
+			largest: { expr: `"file"."size"`, dir: 'DESC', kind: 'number' },
+		};
+		const key = sortKeys[sort];
+
+		const qb = this.createFilteredQuery(ownerId, query);
+		if (query.cursor) {
+			const cursor = this.decodeFileCursor(query.cursor);
+			const value = key.kind === 'date' ? new Date(cursor.v) : Number(cursor.v);
+			qb.andWhere(`(${key.expr}, "file"."id") ${key.dir === 'DESC' ? '<' : '>'} (:cursorValue, :cursorId)`, { cursorValue: value, cursorId: cursor.id });
+		}
+		qb.addSelect(key.expr, 'sort_key').orderBy('sort_key', key.dir).addOrderBy('"file"."id"', key.dir).limit(limit + 1);
+
+		const { entities, raw } = await qb.getRawAndEntities();
+		const page = entities.slice(0, limit);
+		let nextCursor: string | null = null;
+		if (entities.length > limit) {
+			const last = page[page.length - 1];
+			const lastKey = raw.find((r) => r.file_id === last.id)?.sort_key;
+			const v = key.kind === 'date' ? new Date(lastKey).toISOString() : Number(lastKey);
+			nextCursor = Buffer.from(JSON.stringify({ v, id: last.id })).toString('base64url');
+		}
+		// Only the returned page is signed
+		const items = await Promise.all(page.map((file) => this.toSignedRecord(file)));
+		return { items, nextCursor, limit };
+	}
+
+	// The owner's files narrowed by the given filters, aliased as "file"
+	createFilteredQuery(ownerId: string, query: FileFilters): SelectQueryBuilder<FileEntity> {
+		const qb = this.fileRepository.createQueryBuilder('file').where('"file"."ownerId" = :ownerId', { ownerId });
+		if (query.tags?.length) {
+			qb.andWhere(query.tagMode === 'all' ? '"file"."tags" @> :tags::text[]' : '"file"."tags" && :tags::text[]', { tags: query.tags });
+		}
+		if (query.types?.length) {
+			qb.andWhere(new Brackets((b) => query.types!.forEach((t, i) => b.orWhere(`"file"."mimeType" LIKE :type${i}`, { [`type${i}`]: `${t}/%` }))));
+		}
+		if (typeof query.hasAudio === 'boolean') qb.andWhere('"file"."hasAudio" = :hasAudio', { hasAudio: query.hasAudio });
+		const ranges: Array<[keyof FileFilters, string, '>=' | '<=']> = [
+			['minDurationMs', 'durationMs', '>='], ['maxDurationMs', 'durationMs', '<='],
+			['minWidth', 'width', '>='], ['maxWidth', 'width', '<='],
+			['minHeight', 'height', '>='], ['maxHeight', 'height', '<='],
+		];
+		for (const [param, column, op] of ranges) {
+			const value = query[param];
+			if (typeof value === 'number') qb.andWhere(`"file"."${column}" ${op} :${param}`, { [param]: value });
+		}
+		if (query.uploadedAfter) qb.andWhere('"file"."uploadedAt" >= :uploadedAfter', { uploadedAfter: query.uploadedAfter });
+		if (query.uploadedBefore) qb.andWhere('"file"."uploadedAt" < :uploadedBefore', { uploadedBefore: query.uploadedBefore });
+		if (query.sourceHost) {
+			qb.andWhere(`(${FilesService.SOURCE_HOST_SQL} = :sourceHost OR ${FilesService.SOURCE_HOST_SQL} LIKE :sourceHostSuffix)`, { sourceHost: query.sourceHost, sourceHostSuffix: `%.${query.sourceHost}` });
+		}
+		return qb;
+	}
+
+	// Title and tags rank above the filename, which ranks above the source URL. Punctuation is turned into
+	// spaces so filenames and URLs break into the same words search-query.ts splits queries into
+	private static readonly SEARCH_VECTOR_SQL = [
+		`setweight(to_tsvector('simple', regexp_replace(coalesce("title", ''), '[^[:alnum:]]+', ' ', 'g')), 'A')`,
+		`setweight(to_tsvector('simple', regexp_replace(coalesce(array_to_string("tags", ' '), ''), '[^[:alnum:]]+', ' ', 'g')), 'A')`,
+		`setweight(to_tsvector('simple', regexp_replace(coalesce("originalName", ''), '[^[:alnum:]]+', ' ', 'g')), 'B')`,
+		`setweight(to_tsvector('simple', regexp_replace(coalesce("sourceUrl", ''), '[^[:alnum:]]+', ' ', 'g')), 'C')`,
+	].join(' || ');
+
+	// Ranked search over title, filename, tags and source URL; see parseSearchQuery for the syntax
+	async searchFiles(ownerId: string, q: string, options: { limit?: number; offset?: number } = {}): Promise<FileSearchPage> {
+		const limit = Math.min(Math.max(options.limit ?? FilesService.DEFAULT_PAGE_SIZE, 1), FilesService.MAX_PAGE_SIZE);
+		const offset = Math.max(options.offset ?? 0, 0);
+		const parsed = parseSearchQuery(q);
+		if (!parsed.tsquery && parsed.tags.length === 0 && parsed.hosts.length === 0) {
+			throw new HttpException('Search query has no terms', HttpStatus.BAD_REQUEST);
+		}
+
+		const qb = this.fileRepository.createQueryBuilder('file').where('"file"."ownerId" = :ownerId', { ownerId });
+		if (parsed.tags.length) qb.andWhere('"file"."tags" @> :searchTags::text[]', { searchTags: parsed.tags });
+		if (parsed.hosts.length) {
+			qb.andWhere(new Brackets((b) => parsed.hosts.forEach((h, i) => b.orWhere(
+				`(${FilesService.SOURCE_HOST_SQL} = :host${i} OR ${FilesService.SOURCE_HOST_SQL} LIKE :hostSuffix${i})`,
+				{ [`host${i}`]: h, [`hostSuffix${i}`]: `%.${h}` },
+			))));
+		}
+		if (parsed.tsquery) {
+			const tsquery = `to_tsquery('simple', :tsquery)`;
+			qb.andWhere(`"file"."searchVector" @@ ${tsquery}`, { tsquery: parsed.tsquery })
+				.addSelect(`ts_rank_cd("file"."searchVector", ${tsquery})`, 'rank')
+				.orderBy('rank', 'DESC');
+		}
+		qb.addOrderBy('"file"."uploadedAt"', 'DESC').addOrderBy('"file"."id"', 'DESC').offset(offset).limit(limit);
+
+		const [rows, total] = await Promise.all([qb.getMany(), qb.getCount()]);
+		const items = await Promise.all(rows.map((file) => this.toSignedRecord(file)));
+		return { items, total, limit, offset };
+	}
+
+	// Recomputes the search document after a change to any of its columns
+	async refreshSearchVectors(ids: string[]): Promise<void> {
+		try {
+			await this.fileRepository.query(`UPDATE "files" SET "searchVector" = ${FilesService.SEARCH_VECTOR_SQL} WHERE "id" = ANY($1::uuid[])`, [ids]);
+		} catch (e) {
+			console.error('[files] search vector update failed', (e as any)?.message || e);
+		}
+	}
+
+	// TypeORM can't declare GIN indexes, so it is created here; rows from before search existed are backfilled
+	private async prepareSearchIndex(): Promise<void> {
+		await this.fileRepository.query(`CREATE INDEX IF NOT EXISTS "IDX_files_search_vector" ON "files" USING GIN ("searchVector")`);
+		await this.fileRepository.query(`UPDATE "files" SET "searchVector" = ${FilesService.SEARCH_VECTOR_SQL} WHERE "searchVector" IS NULL`);
+	}
+
+	private decodeFileCursor(cursor: string): { v: string | number; id: string } {
+		try {
+			const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+			if ((typeof parsed?.v === 'string' || typeof parsed?.v === 'number') && /^[0-9a-f-]{36}$/i.test(parsed?.id)) return parsed;
+		} catch {}
+		throw new HttpException('Invalid cursor', HttpStatus.BAD_REQUEST);
+	}
+
+	// Adds short-lived presigned URLs for the file, its thumbnail and its MP4 rendition
+	async toSignedRecord(file: FileEntity): Promise<FileRecord> {
+		const url = await this.storage.getSignedUrl(file.filename, 3600);
+		let thumbnailUrl = file.thumbnailUrl;
+		if (file.thumbnailUrl) {
+			const thumbnailKey = `thumbnails/${file.id}.jpg`;
+			thumbnailUrl = await this.storage.getSignedUrl(thumbnailKey, 3600);
+		}
+		const mp4Url = file.mp4Key ? await this.storage.getSignedUrl(file.mp4Key, 3600) : undefined;
+		const storyboardVttUrl = file.storyboardStatus === 'ready' ? `/files/${file.id}/storyboard.vtt` : undefined;
+		const previewUrl = file.previewStatus === 'ready' ? await this.storage.getSignedUrl(`previews/${file.id}.mp4`, 3600) : undefined;
+		const hlsUrl = file.hlsStatus === 'ready' ? `/files/${file.id}/hls/master.m3u8` : undefined;
+		return { ...file, url, mp4Url, thumbnailUrl, storyboardVttUrl, previewUrl, hlsUrl, uploadedAt: file.uploadedAt.toISOString() } as FileRecord;
+	}
 
 	async getFileById(id: string, ownerId: string): Promise<FileRecord | null> {
 		const file = await this.fileRepository.findOne({ where: { id, ownerId } });
-    if (!file) return null;
-    const url = await this.s3Service.getSignedUrl(file.filename, 3600);
-    let thumbnailUrl = file.thumbnailUrl;
-    if (file.thumbnailUrl) {
-      const thumbnailKey = `thumbnails/${file.id}.jpg`;
-      thumbnailUrl = await this.s3Service.getSignedUrl(thumbnailKey, 3600);
-    }
-		// @ts-ignore new optional mp4Key column
-		const mp4Key: string | undefined = (file as any).mp4Key;
-		let mp4Url: string | undefined = undefined;
-		if (mp4Key) {
-			mp4Url = await this.s3Service.getSignedUrl(mp4Key, 3600);
-		}
-		return { ...file, url, mp4Url, thumbnailUrl, uploadedAt: file.uploadedAt.toISOString() } as FileRecord;
+		if (!file) return null;
+		return await this.toSignedRecord(file);
 	}
 
 	async refreshFileUrl(id: string, ownerId: string): Promise<string> {
 		const file = await this.fileRepository.findOne({ where: { id, ownerId } });
 		if (!file) { throw new Error('File not found'); }
-		const newUrl = await this.s3Service.refreshSignedUrl(file.filename, 3600, file.originalName || undefined);
+		const newUrl = await this.storage.getSignedUrl(file.filename, 3600, file.originalName || undefined);
     await this.fileRepository.update(id, { url: newUrl });
     return newUrl;
   }
 
+	// Moves the file to the trash; TrashService restores it or removes it for good
 	async deleteFile(id: string, ownerId: string): Promise<void> {
 		const file = await this.fileRepository.findOne({ where: { id, ownerId } });
 		if (!file) { throw new Error('File not found'); }
-    await this.s3Service.deleteFile(file.filename);
-    await this.fileRepository.delete(id);
-  }
+		await this.fileRepository.softDelete(id);
+	}
 
 	async updateTags(id: string, ownerId: string, tags: string[]): Promise<FileRecord> {
 		const file = await this.fileRepository.findOne({ where: { id, ownerId } });
 		if (!file) { throw new Error('File not found'); }
-		const normalized = (tags || []).map(t => t.trim().toLowerCase()).filter(Boolean);
+		const normalized = normalizeTags(tags || []);
 		await this.fileRepository.update(id, { tags: normalized });
+		await this.refreshSearchVectors([id]);
 		const updated = await this.fileRepository.findOne({ where: { id, ownerId } });
 		if (!updated) { throw new Error('File not found after update'); }
-		const url = await this.s3Service.getSignedUrl(updated.filename, 3600);
-		let thumbnailUrl = updated.thumbnailUrl;
-		if (updated.thumbnailUrl) {
-			const thumbnailKey = `thumbnails/${updated.id}.jpg`;
-			thumbnailUrl = await this.s3Service.getSignedUrl(thumbnailKey, 3600);
-		}
-		return { ...updated, url, thumbnailUrl, uploadedAt: updated.uploadedAt.toISOString() } as FileRecord;
+		return await this.toSignedRecord(updated);
 	}
 
 	async updateTitle(id: string, ownerId: string, title: string | null): Promise<FileRecord> {
@@ -654,720 +1334,25 @@ export class FilesService {
 		if (!file) { throw new Error('File not found'); }
 		const normalized = (title || '').trim();
 		await this.fileRepository.update(id, { title: normalized || null });
+		await this.refreshSearchVectors([id]);
 		const updated = await this.fileRepository.findOne({ where: { id, ownerId } });
 		if (!updated) { throw new Error('File not found after update'); }
-		const url = await this.s3Service.getSignedUrl(updated.filename, 3600);
-		let thumbnailUrl = updated.thumbnailUrl;
-		if (updated.thumbnailUrl) {
-			const thumbnailKey = `thumbnails/${updated.id}.jpg`;
-			thumbnailUrl = await this.s3Service.getSignedUrl(thumbnailKey, 3600);
-		}
-		return { ...updated, url, thumbnailUrl, uploadedAt: updated.uploadedAt.toISOString() } as FileRecord;
+		return await this.toSignedRecord(updated);
 	}
 
-  private async resolveMediaUrl(url: string): Promise<string> {
-		if (url.includes('redgifs.com')) {
-			// Normalize redgifs embed/watch/ifr URLs by stripping query params; prefer non-silent direct media
-			try {
-				const u = new URL(url);
-				u.search = '';
-				u.hash = '';
-				let candidate = u.toString();
-				if (u.hostname.toLowerCase() === 'media.redgifs.com' && /-silent\.mp4$/i.test(u.pathname)) {
-					const nonSilent = candidate.replace(/-silent(\.mp4)$/i, '$1');
-					try {
-						const resp = await axios.head(nonSilent, { timeout: 4000, headers: { 'User-Agent': 'Mozilla/5.0', Referer: 'https://www.redgifs.com/' } });
-						if (resp.status >= 200 && resp.status < 400) {
-							candidate = nonSilent;
-						}
-					} catch {}
-				}
-				url = candidate;
-			} catch {}
-			return await this.resolveRedgifsUrl(url);
-		}
-    if (url.includes('imgur.com') && !url.endsWith('.gif') && !url.endsWith('.mp4')) {
-      return await this.resolveImgurUrl(url);
-    }
-    if (url.includes('reddit.com') || url.includes('redd.it')) {
-      return await this.resolveRedditUrl(url);
-    }
-    if (url.includes('twitter.com') || url.includes('x.com')) {
-      return await this.resolveTwitterUrl(url);
-    }
-		// Generic fallback: for arbitrary pages, try to discover a direct video URL
-		try {
-			return await this.resolveGenericUrl(url);
-		} catch {}
-    return url;
-  }
-
-  private async resolveGenericUrl(rawUrl: string): Promise<string> {
-		// If already a likely direct media URL, return as-is
-		if (/\.(mp4|webm|mov|mkv|m3u8|mpd)(\?|#|$)/i.test(rawUrl)) {
-			return rawUrl;
-		}
-		try {
-			const page = await axios.get(rawUrl, {
-				timeout: 8000,
-				headers: { 'User-Agent': 'Mozilla/5.0', 'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8' },
-				maxRedirects: 5,
-				validateStatus: (s) => !!s && s < 500,
-			});
-			const html = String(page.data || '');
-			const base = new URL(page.request?.res?.responseUrl || page.request?.responseURL || rawUrl);
-
-			const absolutize = (u: string): string => {
-				try { return new URL(u, base).toString(); } catch { return u; }
-			};
-
-			// 1) JSON-LD VideoObject
-			const ldScripts = Array.from(html.matchAll(/<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi));
-			for (const m of ldScripts) {
-				try {
-					const json = JSON.parse(m[1]);
-					const objs = Array.isArray(json) ? json : [json];
-					for (const obj of objs) {
-						const type = (obj['@type'] || obj['type'] || '').toString().toLowerCase();
-						if (type.includes('videoobject')) {
-							const candidate = obj['contentUrl'] || obj['embedUrl'] || obj['url'];
-							if (candidate && typeof candidate === 'string') {
-								const direct = absolutize(candidate);
-								if (/\.(mp4|webm|mov|m3u8|mpd)(\?|#|$)/i.test(direct)) return direct;
-							}
-						}
-					}
-				} catch {}
-			}
-
-			// 2) OpenGraph/Twitter video
-			const ogVideo = (html.match(/property=["']og:video["']\s+content=["']([^"']+)["']/i) || html.match(/content=["']([^"']+)["']\s+property=["']og:video["']/i))?.[1];
-			if (ogVideo) {
-				const direct = absolutize(ogVideo);
-				if (/\.(mp4|webm|mov|m3u8|mpd)(\?|#|$)/i.test(direct)) return direct;
-			}
-
-			// 3) <video> and <source> tags
-			const videoSrcs: string[] = [];
-			for (const m of html.matchAll(/<video[^>]*src=["']([^"']+)["'][^>]*>/gi)) { videoSrcs.push(absolutize(m[1])); }
-			for (const m of html.matchAll(/<source[^>]*type=["']video\/(mp4|webm|ogg)["'][^>]*src=["']([^"']+)["'][^>]*>/gi)) { videoSrcs.push(absolutize(m[2])); }
-			for (const m of html.matchAll(/<source[^>]*src=["']([^"']+\.(?:mp4|webm|mov|m3u8|mpd))(?:\?[^"']*)?["'][^>]*>/gi)) { videoSrcs.push(absolutize(m[1])); }
-			if (videoSrcs.length > 0) {
-				// Prefer mp4/webm, then m3u8/mpd
-				const preferred = [...videoSrcs].sort((a, b) => {
-					const score = (u: string) => (/\.mp4(\?|#|$)/i.test(u) ? 3 : /\.webm(\?|#|$)/i.test(u) ? 2 : /\.(m3u8|mpd)(\?|#|$)/i.test(u) ? 1 : 0);
-					return score(b) - score(a);
-				});
-				for (const u of preferred) {
-					try { const head = await axios.head(u, { timeout: 3000, headers: { 'User-Agent': 'Mozilla/5.0' } }); if (head.status < 400) return u; } catch {}
-				}
-			}
-
-			// 4) Heuristic: absolute links to common video extensions in page text
-			const linkMatches = Array.from(html.matchAll(/https?:[^\s"'<>]+\.(?:mp4|webm|mov|m3u8|mpd)(?:\?[^\s"'<>]*)?/gi)).map(m => absolutize(m[0]));
-			for (const u of linkMatches) {
-				try { const head = await axios.head(u, { timeout: 3000, headers: { 'User-Agent': 'Mozilla/5.0' } }); if (head.status < 400) return u; } catch {}
-			}
-
-			// If nothing found, return original
-			return rawUrl;
-		} catch {
-			return rawUrl;
-		}
-	}
-
-  private async resolveImgurUrl(url: string): Promise<string> {
-    try {
-      const imgurId = url.split('/').pop()?.split('.')[0];
-			if (!imgurId) { throw new Error('Could not extract Imgur ID'); }
-      const formats = ['.gif', '.mp4', '.jpg', '.png'];
-      for (const format of formats) {
-        const directUrl = `https://i.imgur.com/${imgurId}${format}`;
-				try { const response = await axios.head(directUrl); if (response.status === 200) { return directUrl; } } catch {}
-			}
-      throw new Error('Could not find valid Imgur media format');
-    } catch (error) {
-      console.error('Error resolving Imgur URL:', error);
-      throw new Error(`Failed to resolve Imgur URL: ${error.message}`);
-    }
-  }
-
-  private async resolveRedditUrl(rawUrl: string): Promise<string> {
-    try {
-      const ensureDirectFromVReddit = async (id: string): Promise<string> => {
-        const candidates = [
-          `https://v.redd.it/${id}/DASH_1080.mp4`,
-          `https://v.redd.it/${id}/DASH_720.mp4`,
-          `https://v.redd.it/${id}/DASH_480.mp4`,
-          `https://v.redd.it/${id}/DASH_360.mp4`,
-          `https://v.redd.it/${id}/DASH_240.mp4`,
-        ];
-        for (const c of candidates) {
-          try {
-            const resp = await axios.head(c, { timeout: 2500, headers: { 'User-Agent': 'Mozilla/5.0' } });
-            if (resp.status >= 200 && resp.status < 400) return c;
-          } catch {}
-        }
-        return `https://v.redd.it/${id}/HLSPlaylist.m3u8`;
-      };
-
-      const extractFromJson = (json: any): string | undefined => {
-        try {
-          const root = Array.isArray(json) ? (json[0]?.data?.children?.[0]?.data ?? {}) : json?.data?.children?.[0]?.data ?? json;
-          const cp = (root.crosspost_parent_list && root.crosspost_parent_list[0]) || {};
-          // Prefer Redgifs from oEmbed html if present (often contains sound-ready media)
-          const oembedHtml: string | undefined = root.secure_media?.oembed?.html || cp.secure_media?.oembed?.html;
-          if (oembedHtml && /redgifs\.com/i.test(oembedHtml)) {
-            const m = oembedHtml.match(/src=["']([^"']+redgifs\.com[^"']+)["']/i) || oembedHtml.match(/href=["']([^"']+redgifs\.com[^"']+)["']/i);
-            const embed = m?.[1];
-            if (embed) return embed;
-          }
-          const rv = root.secure_media?.reddit_video?.fallback_url || root.preview?.reddit_video_preview?.fallback_url || cp.secure_media?.reddit_video?.fallback_url || cp.preview?.reddit_video_preview?.fallback_url;
-          if (rv && typeof rv === 'string') return rv;
-          const overridden = root.url_overridden_by_dest || root.url;
-          if (typeof overridden === 'string' && overridden) return overridden;
-          // Gallery support
-          if (root.is_gallery && root.gallery_data && root.media_metadata) {
-            try {
-              const firstId = root.gallery_data.items?.[0]?.media_id;
-              const meta = firstId ? root.media_metadata[firstId] : undefined;
-              let galleryUrl = meta?.s?.u || meta?.s?.gif;
-              // Fallback to highest available preview if source missing
-              if (!galleryUrl && Array.isArray(meta?.p) && meta.p.length > 0) {
-                galleryUrl = meta.p[meta.p.length - 1]?.u;
-              }
-              if (galleryUrl && typeof galleryUrl === 'string') return String(galleryUrl).replace(/&amp;/g, '&');
-            } catch {}
-          }
-          // Image preview
-          const img = root.preview?.images?.[0]?.source?.url;
-          if (img && typeof img === 'string') return img.replace(/&amp;/g, '&');
-          // oEmbed thumbnail (may be image)
-          const thumb = root.secure_media?.oembed?.thumbnail_url || cp.secure_media?.oembed?.thumbnail_url;
-          if (thumb && typeof thumb === 'string') return String(thumb);
-        } catch {}
-        return undefined;
-      };
-
-      // Normalize and follow redirects for share links
-      let workingUrl = rawUrl;
-      try {
-        const u0 = new URL(rawUrl);
-        if (u0.hostname.toLowerCase() === 'redd.it' && u0.pathname.length > 1) {
-          const id = u0.pathname.replace(/\//g, '');
-          workingUrl = `https://www.reddit.com/comments/${id}`;
-        }
-        // Strip tracking query params for reddit links (share_id, utm_*) as they can break resolution
-        if (u0.hostname.toLowerCase().includes('reddit.com')) {
-          const clean = new URL(rawUrl);
-          clean.search = '';
-          clean.hash = '';
-          workingUrl = clean.toString();
-        }
-      } catch {}
-
-      // Fetch page to capture canonical URL or final redirected URL (for /s/ share links)
-      const pageResp = await axios.get(workingUrl, { 
-        timeout: 8000, 
-        headers: { 'User-Agent': 'Mozilla/5.0', 'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8' }, 
-        maxRedirects: 10, 
-        validateStatus: (s) => !!s && s < 500 
-      });
-      const finalHtml = String(pageResp.data || '');
-      const findMeta = (pattern: RegExp) => { const m = finalHtml.match(pattern); return (m && m[1]) ? m[1] : undefined; };
-      const redirectedUrl: string | undefined = (pageResp as any)?.request?.res?.responseUrl || (pageResp as any)?.request?.responseURL;
-      let canonical = findMeta(/<link[^>]+rel=["']canonical["'][^>]+href=["']([^"']+)["'][^>]*>/i) || findMeta(/property=["']og:url["']\s+content=["']([^"']+)["']/i) || redirectedUrl;
-      // Clean canonical by removing query/hash
-      if (canonical) {
-        try { const c = new URL(canonical); c.search = ''; c.hash = ''; canonical = c.toString(); } catch {}
-      }
-
-      // Try JSON API for post metadata
-      let postJsonUrl: string | undefined;
-      try {
-        if (canonical) {
-          const base = canonical.endsWith('/') ? canonical.slice(0, -1) : canonical;
-          postJsonUrl = `${base}.json?raw_json=1`;
-        } else {
-          const u = new URL(workingUrl);
-          // Ensure no query/hash when deriving id
-          u.search = '';
-          u.hash = '';
-          const parts = u.pathname.split('/').filter(Boolean);
-          // /r/<sub>/comments/<id>/...
-          const idx = parts.findIndex(p => p === 'comments');
-          if (idx >= 0 && parts.length > idx + 1) {
-            const id = parts[idx + 1];
-            postJsonUrl = `https://www.reddit.com/comments/${id}.json?raw_json=1`;
-          }
-        }
-      } catch {}
-
-      if (postJsonUrl) {
-        // TODO: Migrate to OAuth-based Reddit API and add robust rate-limit handling.
-        // The .json endpoint is undocumented and may be rate limited or change behavior.
-        // Implement retry/backoff, caching, and fallbacks to HTML/OG tags when the JSON call fails.
-        // Try multiple hosts for JSON to reduce transient failures
-        const jsonCandidates: string[] = [];
-        try {
-          const urlObj = new URL(postJsonUrl);
-          const path = urlObj.pathname + (urlObj.search || '');
-          jsonCandidates.push(postJsonUrl);
-          jsonCandidates.push(`https://api.reddit.com${path.replace(/\.json$/, '')}`);
-          jsonCandidates.push(`https://old.reddit.com${urlObj.pathname}.json?raw_json=1`);
-        } catch { jsonCandidates.push(postJsonUrl); }
-        for (const endpoint of jsonCandidates) {
-          try {
-            const j = await axios.get(endpoint, { timeout: 8000, headers: { 'User-Agent': 'Mozilla/5.0', 'Accept': 'application/json' } });
-            let mediaUrl = extractFromJson(j.data);
-            if (mediaUrl) {
-              // Normalize redgifs URLs by stripping embed params to prefer direct media with audio
-              try {
-                const mu = new URL(mediaUrl);
-                if (mu.hostname.endsWith('redgifs.com')) { mu.search = ''; mu.hash = ''; mediaUrl = mu.toString(); }
-              } catch {}
-              try {
-                const v = new URL(mediaUrl);
-                const host = v.hostname.toLowerCase();
-                if (host === 'v.redd.it') {
-                  const id = v.pathname.split('/').filter(Boolean)[0] || '';
-                  if (id) return await ensureDirectFromVReddit(id);
-                }
-              } catch {}
-              if (mediaUrl.endsWith('.gifv')) return mediaUrl.replace(/\.gifv$/i, '.mp4');
-              // Prefer non-silent variants for Redgifs direct links
-              try {
-                const u = new URL(mediaUrl);
-                if (u.hostname.endsWith('redgifs.com')) {
-                  const nonSilent = mediaUrl.replace(/-silent(\.[a-z0-9]+)$/i, '$1');
-                  if (nonSilent !== mediaUrl) {
-                    try {
-                      const head = await axios.head(nonSilent, { timeout: 4000, headers: { 'User-Agent': 'Mozilla/5.0' } });
-                      if (head.status >= 200 && head.status < 400) return nonSilent;
-                    } catch {}
-                  }
-                }
-              } catch {}
-              try { return await this.resolveMediaUrl(mediaUrl); } catch { return mediaUrl; }
-            }
-          } catch {}
-        }
-      }
-
-      // Fallbacks: i.redd.it or v.redd.it direct inference
-      try {
-        const u = new URL(canonical || workingUrl);
-        const host = u.hostname.toLowerCase();
-        const parts = u.pathname.split('/').filter(Boolean);
-        if (host === 'i.redd.it') return u.toString();
-        if (host === 'v.redd.it' && parts.length > 0) {
-          return await ensureDirectFromVReddit(parts[0]);
-        }
-      } catch {}
-
-      // As a last HTML fallback, try og:video/og:image
-      const ogVideo = findMeta(/property=["']og:video["']\s+content=["']([^"']+)["']/i) || findMeta(/content=["']([^"']+)["']\s+property=["']og:video["']/i) || findMeta(/property=["']og:video:secure_url["']\s+content=["']([^"']+)["']/i);
-      if (ogVideo) {
-        try {
-          const vu = new URL(ogVideo);
-          const host = vu.hostname.toLowerCase();
-          if (host === 'v.redd.it') {
-            return await ensureDirectFromVReddit(vu.pathname.split('/').filter(Boolean)[0] || '');
-          }
-          // For non-Reddit hosts (e.g., Redgifs), resolve to direct media (prefer audio-capable variants)
-          try { return await this.resolveMediaUrl(vu.toString()); } catch { return ogVideo; }
-        } catch {}
-        return ogVideo;
-      }
-
-      // Fallback: search for Redgifs embeds in HTML and resolve
-      const redgifsIframe = (finalHtml.match(/<iframe[^>]+src=["']([^"']+redgifs\.com[^"']+)["'][^>]*>/i) || [])[1];
-      if (redgifsIframe) {
-        try {
-          const cleaned = redgifsIframe.replace(/-silent(\.[a-z0-9]+)$/i, '$1');
-          return await this.resolveMediaUrl(cleaned);
-        } catch {}
-      }
-      const redgifsSource = (finalHtml.match(/<source[^>]+src=["']([^"']+redgifs\.com[^"']+)["'][^>]*>/i) || [])[1];
-      if (redgifsSource) {
-        try {
-          const cleaned = redgifsSource.replace(/-silent(\.[a-z0-9]+)$/i, '$1');
-          return await this.resolveMediaUrl(cleaned);
-        } catch {}
-      }
-      const redgifsAnchor = (finalHtml.match(/<a[^>]+href=["']([^"']+redgifs\.com[^"']+)["'][^>]*>/i) || [])[1];
-      if (redgifsAnchor) {
-        try {
-          const cleaned = redgifsAnchor.replace(/-silent(\.[a-z0-9]+)$/i, '$1');
-          return await this.resolveMediaUrl(cleaned);
-        } catch {}
-      }
-      const ogImage = findMeta(/property=["']og:image["']\s+content=["']([^"']+)["']/i) || findMeta(/content=["']([^"']+)["']\s+property=["']og:image["']/i) || findMeta(/name=["']twitter:image["']\s+content=["']([^"']+)["']/i) || findMeta(/content=["']([^"']+)["']\s+name=["']twitter:image["']/i);
-      if (ogImage) return ogImage;
-      return rawUrl;
-    } catch (e) {
-      return rawUrl;
-    }
-  }
-
-  private async resolveTwitterUrl(rawUrl: string): Promise<string> {
-    const log = (msg: string, ...args: any[]) => console.log(`[Twitter] ${msg}`, ...args);
-    
-    try {
-      // Normalize Twitter URLs - handle both twitter.com and x.com
-      let workingUrl = rawUrl;
-      try {
-        const u = new URL(rawUrl);
-        // Convert x.com to twitter.com for consistency
-        if (u.hostname.toLowerCase() === 'x.com') {
-          u.hostname = 'twitter.com';
-          workingUrl = u.toString();
-        }
-        // Clean up URL by removing unnecessary parameters
-        u.search = '';
-        u.hash = '';
-        workingUrl = u.toString();
-      } catch {}
-
-      // Extract tweet ID from URL
-      const tweetIdMatch = workingUrl.match(/\/status\/(\d+)/);
-      if (!tweetIdMatch) {
-        throw new Error('Could not extract tweet ID from URL');
-      }
-      const tweetId = tweetIdMatch[1];
-      log('Attempting to resolve tweet', { tweetId, workingUrl });
-
-      // Strategy 1: Try Twitter's oEmbed API (most reliable, no auth needed)
-      try {
-        log('Trying oEmbed API...');
-        const oembedUrl = `https://publish.twitter.com/oembed?url=${encodeURIComponent(workingUrl)}`;
-        const oembedResponse = await axios.get(oembedUrl, {
-          timeout: 8000,
-          headers: { 
-            'User-Agent': 'Mozilla/5.0 (compatible; TwitterBot/1.0; +https://help.twitter.com)',
-            'Accept': 'application/json'
-          },
-        });
-        
-        const oembedData = oembedResponse.data;
-        if (oembedData && oembedData.html) {
-          // Extract video URL from oEmbed HTML if present
-          const videoPatterns = [
-            /https:\/\/video\.twimg\.com\/[^"'\s]+\.mp4/g,
-            /https:\/\/video\.twimg\.com\/[^"'\s]+\.m3u8/g,
-          ];
-          
-          for (const pattern of videoPatterns) {
-            const videoMatch = oembedData.html.match(pattern);
-            if (videoMatch && videoMatch[0]) {
-              const videoUrl = videoMatch[0];
-              log('Found video via oEmbed:', videoUrl);
-              return videoUrl;
-            }
-          }
-        }
-        log('oEmbed did not contain video URLs');
-      } catch (error) {
-        log('oEmbed API failed:', error.message);
-      }
-
-      // Strategy 2: Scrape page HTML (backup method)
-      try {
-        log('Trying HTML scraping...');
-        const response = await axios.get(workingUrl, {
-          timeout: 10000,
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-            'Accept-Language': 'en-US,en;q=0.5',
-            'Accept-Encoding': 'gzip, deflate',
-            'Connection': 'keep-alive',
-            'Upgrade-Insecure-Requests': '1',
-            'Sec-Fetch-Dest': 'document',
-            'Sec-Fetch-Mode': 'navigate',
-            'Sec-Fetch-Site': 'none',
-          },
-          maxRedirects: 5,
-          validateStatus: (s) => !!s && s < 500,
-        });
-
-        const html = String(response.data || '');
-        log('HTML page fetched, length:', html.length);
-        
-        // Look for various video URL patterns in the HTML
-        const videoPatterns = [
-          // Direct Twitter video URLs
-          { pattern: /https:\/\/video\.twimg\.com\/[^"'\s\)]+\.mp4(?:\?[^"'\s\)]*)?/gi, name: 'twimg mp4' },
-          { pattern: /https:\/\/video\.twimg\.com\/[^"'\s\)]+\.m3u8(?:\?[^"'\s\)]*)?/gi, name: 'twimg m3u8' },
-          // JSON data within scripts
-          { pattern: /"video_url":\s*"([^"]+)"/gi, name: 'json video_url' },
-          { pattern: /"contentUrl":\s*"([^"]+\.mp4[^"]*)"/gi, name: 'json contentUrl' },
-          // OpenGraph and Twitter meta tags
-          { pattern: /property=["']og:video(?::url)?["']\s+content=["']([^"']+)["']/gi, name: 'og:video' },
-          { pattern: /content=["']([^"']+)["']\s+property=["']og:video(?::url)?["']/gi, name: 'og:video reverse' },
-          { pattern: /name=["']twitter:player:stream["']\s+content=["']([^"']+)["']/gi, name: 'twitter:player:stream' },
-          { pattern: /content=["']([^"']+)["']\s+name=["']twitter:player:stream["']/gi, name: 'twitter:player:stream reverse' },
-          // Video elements
-          { pattern: /<video[^>]+src=["']([^"']+)["']/gi, name: 'video src' },
-          { pattern: /<source[^>]+src=["']([^"']+)["']/gi, name: 'source src' },
-        ];
-
-        let foundVideoUrl: string | null = null;
-        
-        for (const { pattern, name } of videoPatterns) {
-          const matches = Array.from(html.matchAll(pattern));
-          log(`Trying pattern ${name}, found ${matches.length} matches`);
-          
-          for (const match of matches) {
-            const candidateUrl = match[1] || match[0];
-            if (candidateUrl && (candidateUrl.includes('.mp4') || candidateUrl.includes('.m3u8'))) {
-              // Clean up the URL
-              let cleanUrl = candidateUrl
-                .replace(/\\u002F/g, '/')
-                .replace(/\\/g, '')
-                .replace(/&amp;/g, '&');
-              
-              // Validate that this looks like a real video URL
-              try {
-                new URL(cleanUrl);
-                log(`Found candidate URL via ${name}:`, cleanUrl);
-                
-                // Prefer MP4 over M3U8 for better compatibility
-                if (cleanUrl.includes('.mp4') || !foundVideoUrl) {
-                  foundVideoUrl = cleanUrl;
-                  if (cleanUrl.includes('.mp4')) {
-                    break; // MP4 is preferred, stop looking
-                  }
-                }
-              } catch {
-                log(`Invalid URL format: ${cleanUrl}`);
-              }
-            }
-          }
-          if (foundVideoUrl && foundVideoUrl.includes('.mp4')) break; // Found MP4, stop searching
-        }
-
-        if (foundVideoUrl) {
-          // Validate the URL is accessible
-          try {
-            log('Validating video URL accessibility...');
-            const headResponse = await axios.head(foundVideoUrl, {
-              timeout: 5000,
-              headers: { 
-                'User-Agent': 'Mozilla/5.0',
-                'Referer': 'https://twitter.com/',
-              },
-            });
-            if (headResponse.status >= 200 && headResponse.status < 400) {
-              log('Successfully resolved and validated video URL:', foundVideoUrl);
-              return foundVideoUrl;
-            } else {
-              log('Video URL returned status:', headResponse.status);
-            }
-          } catch (headError) {
-            log('Video URL validation failed:', headError.message);
-            // Still return the URL even if HEAD request fails - some servers block HEAD
-            log('Returning unvalidated video URL:', foundVideoUrl);
-            return foundVideoUrl;
-          }
-        } else {
-          log('No video URLs found in HTML');
-        }
-      } catch (error) {
-        log('HTML scraping failed:', error.message);
-      }
-
-      // If all strategies failed, fall back to the generic resolver
-      log('All Twitter-specific strategies failed, trying generic resolver...');
-      try {
-        return await this.resolveGenericUrl(workingUrl);
-      } catch (genericError) {
-        log('Generic resolver also failed:', genericError.message);
-      }
-
-      // If everything failed, throw an error
-      throw new Error(`Could not extract video from Twitter post ${tweetId}. This may be due to:
-- The tweet doesn't contain a video
-- The video is restricted or private
-- Twitter's anti-scraping measures are blocking access
-- The tweet may have been deleted`);
-      
-    } catch (error) {
-      console.error('[Twitter] Error resolving Twitter URL:', error.message);
-      throw new Error(`Failed to resolve Twitter URL: ${error.message}`);
-    }
-  }
-
-	private async resolveRedgifsUrl(rawUrl: string): Promise<string> {
-		const startedAt = Date.now();
-		const log = (...args: any[]) => console.log('[redgifs]', ...args);
-		const MAX_MS = 8000; // overall deadline
-		const HEAD_TIMEOUT = 2000;
-		const AUTH_TIMEOUT = 2000;
-		const META_TIMEOUT = 3000;
-		const HTML_TIMEOUT = 2000;
-
-		const withTimeout = async <T>(p: Promise<T>, ms: number, label: string): Promise<T> => {
-			let to: NodeJS.Timeout;
-			return await Promise.race([
-				p.finally(() => clearTimeout(to)),
-				new Promise<T>((_, reject) => { to = setTimeout(() => reject(new Error(`${label} timeout after ${ms}ms`)), ms as any); })
-			]);
-		};
-
-		const headOk = async (url: string): Promise<string> => {
-			try {
-				const resp = await withTimeout(
-					axios.head(url, { timeout: HEAD_TIMEOUT, headers: { 'User-Agent': 'Mozilla/5.0', Referer: 'https://www.redgifs.com/' } }),
-					HEAD_TIMEOUT + 200,
-					`HEAD ${url}`,
-				);
-				if (resp.status >= 200 && resp.status < 300) return url;
-				throw new Error(`HEAD status ${resp.status}`);
-			} catch (e) {
-				throw e;
-			}
-		};
-
-		try {
-			const u = new URL(rawUrl);
-			const parts = u.pathname.split('/').filter(Boolean);
-			// support /watch/<id>, /ifr/<id>, /<id>
-			const idRaw = parts[1] || parts[0] || '';
-			if (!idRaw) throw new Error('Could not extract Redgifs ID');
-			const id = idRaw.replace(/[^a-zA-Z0-9]/g, '');
-			log('resolve start', { id, host: u.hostname });
-
-			// Prepare candidates for direct media
-			const pascal = id
-				.replace(/[-_]+/g, ' ')
-				.replace(/(^|\s)([a-zA-Z])/g, (_, s, c) => s + c.toUpperCase())
-				.replace(/\s+/g, '');
-			const candidates = [
-				`https://media.redgifs.com/${pascal}-mobile.mp4`,
-				`https://media.redgifs.com/${pascal}.mp4`,
-				`https://thumbs2.redgifs.com/${pascal}-mobile.mp4`,
-			];
-
-			// Strategy A: Redgifs API
-			const apiPromise = (async () => {
-				try {
-					const auth = await withTimeout(
-						axios.get('https://api.redgifs.com/v2/auth/temporary', { timeout: AUTH_TIMEOUT, headers: { 'User-Agent': 'Mozilla/5.0' } }),
-						AUTH_TIMEOUT + 200,
-						'auth',
-					);
-					const token = (auth.data && (auth.data.token || auth.data?.accessToken)) || undefined;
-					log('auth ok', { elapsedMs: Date.now() - startedAt });
-					if (token) {
-						const meta = await withTimeout(
-							axios.get(`https://api.redgifs.com/v2/gifs/${id}`, {
-								timeout: META_TIMEOUT,
-								headers: { Authorization: `Bearer ${token}`, 'User-Agent': 'Mozilla/5.0' },
-							}),
-							META_TIMEOUT + 200,
-							'meta',
-						);
-						const urls = meta.data?.gif?.urls || {};
-						const direct: string | undefined = urls.hd || urls.sd || urls.gif || urls.max1mbGif || urls.thumbnail;
-						if (direct) {
-							log('api resolved', { elapsedMs: Date.now() - startedAt, direct });
-							return direct;
-						}
-					}
-					throw new Error('no direct via api');
-				} catch (e) {
-					log('api failed', (e as any)?.message || e);
-					throw e;
-				}
-			})();
-
-			// Strategy B: Concurrent HEAD to common patterns
-			const headPromise = (async () => {
-				const probes = candidates.map((c) => headOk(c));
-				// first to succeed
-				// Promise.any not in older runtimes; emulate
-				return await new Promise<string>((resolve, reject) => {
-					let rejections = 0;
-					for (const p of probes) {
-						p.then((url) => { log('head resolved', { url, elapsedMs: Date.now() - startedAt }); resolve(url); })
-						 .catch(() => { if (++rejections === probes.length) reject(new Error('all HEAD failed')); });
-					}
-				});
-			})();
-
-			// Strategy C: Scrape HTML for og:video
-			const htmlPromise = (async () => {
-				try {
-					const htmlResp = await withTimeout(
-						axios.get(rawUrl, { timeout: HTML_TIMEOUT, headers: { 'User-Agent': 'Mozilla/5.0' } }),
-						HTML_TIMEOUT + 200,
-						'html',
-					);
-					const html = String(htmlResp.data || '');
-					const m = html.match(/property=["']og:video["']\s+content=["']([^"']+)["']/i) || html.match(/content=["']([^"']+)["']\s+property=["']og:video["']/i);
-					const direct = m?.[1];
-					if (direct) {
-						log('html resolved', { direct, elapsedMs: Date.now() - startedAt });
-						return direct;
-					}
-					throw new Error('no og:video');
-				} catch (e) {
-					log('html failed', (e as any)?.message || e);
-					throw e;
-				}
-			})();
-
-			// Race strategies with overall deadline
-			// Wrap to tag the winner type; enforce overall deadline via withTimeout
-			const taggedApi = apiPromise.then((u) => ({ type: 'api' as const, url: u }));
-			const taggedHead = headPromise.then((u) => ({ type: 'head' as const, url: u }));
-			const taggedHtml = htmlPromise.then((u) => ({ type: 'html' as const, url: u }));
-			const firstTagged = await withTimeout(Promise.any([taggedApi, taggedHead, taggedHtml]), MAX_MS, 'overall');
-			let candidate = firstTagged.url;
-			const winnerType = firstTagged.type;
-			// If API wasn't the winner, allow a short grace for API to arrive and override candidate
-			if (winnerType !== 'api') {
-				try {
-					const apiGrace = await withTimeout(apiPromise, 700, 'apiGrace');
-					if (apiGrace) {
-						candidate = apiGrace;
-					}
-				} catch {}
-			}
-			// Prefer non-silent direct media if candidate is a Redgifs silent URL
-			try {
-				const cu = new URL(candidate);
-				if (cu.hostname.toLowerCase() === 'media.redgifs.com' && /-silent\.mp4$/i.test(cu.pathname)) {
-					const nonSilent = candidate.replace(/-silent(\.mp4)$/i, '$1');
-					try {
-						const head = await withTimeout(
-							axios.head(nonSilent, { timeout: HEAD_TIMEOUT, headers: { 'User-Agent': 'Mozilla/5.0', Referer: 'https://www.redgifs.com/' } }),
-							HEAD_TIMEOUT + 200,
-							'head nonSilent',
-						);
-						if (head.status >= 200 && head.status < 400) {
-							candidate = nonSilent;
-						}
-					} catch {}
-				}
-			} catch {}
-			log('resolved success', { result: candidate, totalMs: Date.now() - startedAt });
-			return candidate;
-		} catch (err) {
-			log('resolve failed, falling back to original', (err as any)?.message || err, { totalMs: Date.now() - startedAt });
-			return rawUrl;
-    }
+  private async resolveMedia(url: string): Promise<ResolvedMedia[]> {
+    const media = await this.mediaResolvers.resolve(url);
+    return media.length > 0 ? media : [{ url }];
   }
 
   private getExtensionFromMimeType(mimeType: string): string {
-		const mimeToExt: { [key: string]: string } = { 'video/mp4': '.mp4', 'video/webm': '.webm', 'video/quicktime': '.mov', 'video/x-msvideo': '.avi', 'image/gif': '.gif', 'image/jpeg': '.jpg', 'image/png': '.png' };
+		const mimeToExt: { [key: string]: string } = { 'video/mp4': '.mp4', 'video/webm': '.webm', 'video/quicktime': '.mov', 'video/x-msvideo': '.avi', 'video/x-matroska': '.mkv', 'image/gif': '.gif', 'image/jpeg': '.jpg', 'image/png': '.png' };
     return mimeToExt[mimeType] || '';
   }
 
   private getMimeTypeFromExtension(ext: string): string | undefined {
     const normalized = ext.startsWith('.') ? ext.toLowerCase() : `.${ext.toLowerCase()}`;
-		const extToMime: { [key: string]: string } = { '.mp4': 'video/mp4', '.webm': 'video/webm', '.mov': 'video/quicktime', '.avi': 'video/x-msvideo', '.gif': 'image/gif', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.png': 'image/png' };
+		const extToMime: { [key: string]: string } = { '.mp4': 'video/mp4', '.webm': 'video/webm', '.mov': 'video/quicktime', '.avi': 'video/x-msvideo', '.mkv': 'video/x-matroska', '.gif': 'image/gif', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.png': 'image/png' };
     return extToMime[normalized];
   }
 
@@ -1375,7 +1360,21 @@ export class FilesService {
 		return await this.fileRepository.findOne({ where: { id, ownerId } });
 	}
 
-	async getObjectStream(key: string) {
-		return await this.s3Service.getObjectStream(key);
+	// What to send for a file: the MP4 rendition when playback asks for it and one exists, else the original.
+	// Objects are never rewritten under the same key, so the content hash makes a stable strong ETag
+	getStreamSource(file: FileEntity, options: { playback?: boolean } = {}): FileStreamSource {
+		if (options.playback && file.mp4Key) {
+			const version = file.transcodedAt ?? file.uploadedAt;
+			return { key: file.mp4Key, contentType: 'video/mp4', etag: `"${file.hash}-mp4-${version.getTime().toString(36)}"`, lastModified: version };
+		}
+		return { key: file.filename, contentType: file.mimeType || 'application/octet-stream', etag: `"${file.hash}"`, lastModified: file.uploadedAt };
+	}
+
+	async headObject(key: string) {
+		return await this.storage.headObject(key);
+	}
+
+	async getObjectStream(key: string, range?: ByteRange) {
+		return await this.storage.getObjectStream(key, range);
 	}
 }
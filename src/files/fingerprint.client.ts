@@ -8,7 +8,18 @@ export interface RemoteFingerprint {
 	frameHashes?: string[];
 }
 
-export class FingerprintClient {
+// Anything that can fingerprint a local file; null means unavailable, so the next provider is tried
+export interface FingerprintProvider {
+	readonly name: string;
+	fingerprintFile(localPath: string): Promise<RemoteFingerprint | null>;
+}
+
+// Providers in the order they are tried
+export const FINGERPRINT_PROVIDERS = Symbol('FINGERPRINT_PROVIDERS');
+
+export class FingerprintClient implements FingerprintProvider {
+	readonly name = 'remote';
+
 	constructor(private baseUrl: string) {}
 
 	async fingerprintFile(localPath: string): Promise<RemoteFingerprint | null> {
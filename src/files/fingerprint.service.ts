@@ -2,7 +2,11 @@ import { Injectable } from '@nestjs/common';
 import * as child_process from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
+import { promisify } from 'util';
 import sharp from 'sharp';
+import { FingerprintProvider, RemoteFingerprint } from './fingerprint.client';
+
+const execFile = promisify(child_process.execFile);
 
 function toHex(bits: number[]): string {
 	let hex = '';
@@ -30,8 +34,45 @@ async function computeDHash(buffer: Buffer): Promise<string> {
 	return toHex(bits);
 }
 
+// In-process counterpart of the remote fingerprint service: ffprobe for duration and audio, dHashes of one
+// frame per second via ffmpeg and sharp, and a Chromaprint audio fingerprint when fpcalc is installed
 @Injectable()
-export class FingerprintService {
+export class FingerprintService implements FingerprintProvider {
+	readonly name = 'local';
+
+	async fingerprintFile(localPath: string): Promise<RemoteFingerprint | null> {
+		const frameHashes = await this.sampleFrameHashes(localPath);
+		// Without frames there is nothing to match on
+		if (!frameHashes || frameHashes.length === 0) return null;
+		const hasAudio = await this.probeHasAudio(localPath);
+		return {
+			durationMs: (await this.extractDurationMs(localPath)) ?? undefined,
+			hasAudio,
+			audioFingerprint: hasAudio ? (await this.audioFingerprint(localPath)) ?? undefined : undefined,
+			frameHashes,
+		};
+	}
+
+	async probeHasAudio(filePath: string): Promise<boolean> {
+		try {
+			const { stdout } = await execFile('ffprobe', ['-v', 'error', '-select_streams', 'a', '-show_entries', 'stream=index', '-of', 'csv=p=0', filePath]);
+			return /\d/.test(stdout);
+		} catch {
+			return false;
+		}
+	}
+
+	// Compressed Chromaprint fingerprint from fpcalc; null when the tool is missing or the audio can't be decoded
+	async audioFingerprint(filePath: string): Promise<string | null> {
+		try {
+			const { stdout } = await execFile('fpcalc', ['-json', filePath], { maxBuffer: 16 * 1024 * 1024 });
+			const fingerprint = JSON.parse(stdout)?.fingerprint;
+			return typeof fingerprint === 'string' && fingerprint ? fingerprint : null;
+		} catch {
+			return null;
+		}
+	}
+
   async imageDHash(filePath: string): Promise<string | null> {
     try {
       const buf = fs.readFileSync(filePath);
@@ -42,9 +83,8 @@ export class FingerprintService {
   }
 	async extractDurationMs(filePath: string): Promise<number | null> {
 		try {
-			const cmd = `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${filePath}"`;
-			const out = child_process.execSync(cmd, { encoding: 'utf8' });
-			const seconds = parseFloat(out.trim());
+			const { stdout } = await execFile('ffprobe', ['-v', 'error', '-show_entries', 'format=duration', '-of', 'default=noprint_wrappers=1:nokey=1', filePath]);
+			const seconds = parseFloat(stdout.trim());
 			if (isNaN(seconds)) return null;
 			return Math.round(seconds * 1000);
 		} catch {
@@ -53,12 +93,14 @@ export class FingerprintService {
 	}
 
 	async sampleFrameHashes(filePath: string, fps: number = 1): Promise<string[] | null> {
-		const framesDir = path.join(process.cwd(), 'temp', `frames_${Date.now()}`);
-		fs.mkdirSync(framesDir, { recursive: true });
+		const tempDir = path.join(process.cwd(), 'temp');
+		fs.mkdirSync(tempDir, { recursive: true });
+		// Unique per call, so fingerprints started at the same moment don't share frames
+		const framesDir = fs.mkdtempSync(path.join(tempDir, 'frames_'));
 		const pattern = path.join(framesDir, 'frame_%05d.jpg');
 		try {
-			const cmd = `ffmpeg -y -i "${filePath}" -vf fps=${fps},scale=160:-1 -q:v 2 "${pattern}"`;
-			child_process.execSync(cmd, { stdio: 'ignore' });
+			// Async so a long video doesn't block the event loop while frames are extracted
+			await execFile('ffmpeg', ['-y', '-i', filePath, '-vf', `fps=${fps},scale=160:-1`, '-q:v', '2', pattern], { maxBuffer: 16 * 1024 * 1024 });
 			const files = fs.readdirSync(framesDir).filter(f => f.endsWith('.jpg')).sort();
 			if (files.length === 0) return [];
 			const hashes: string[] = [];
@@ -0,0 +1,17 @@
+import { planHlsLadder, buildMasterPlaylist, rewritePlaylistUris } from './hls-ladder';
+
+describe('hls-ladder', () => {
+  it('caps the ladder at the source and sizes portrait videos by their short side', () => {
+    expect(planHlsLadder(1280, 720).map((r) => `${r.name} ${r.width}x${r.height}`)).toEqual(['720p 1280x720', '480p 854x480', '360p 640x360']);
+    expect(planHlsLadder(1080, 1920)[0]).toMatchObject({ name: '1080p', width: 1080, height: 1920 });
+    expect(planHlsLadder(426, 240)).toEqual([{ name: '240p', width: 426, height: 240, videoKbps: 800 }]);
+  });
+
+  it('lists each rendition in the master playlist and signs only URI lines', async () => {
+    const master = buildMasterPlaylist(planHlsLadder(854, 480), false);
+    expect(master).toContain('#EXT-X-STREAM-INF:BANDWIDTH=1400000,RESOLUTION=854x480\n480p/index.m3u8');
+    const variant = '#EXTM3U\n#EXTINF:4.0,\nsegment_0000.ts\n#EXT-X-ENDLIST\n';
+    const rewritten = await rewritePlaylistUris(variant, async (uri) => `https://cdn/${uri}?sig`);
+    expect(rewritten).toBe('#EXTM3U\n#EXTINF:4.0,\nhttps://cdn/segment_0000.ts?sig\n#EXT-X-ENDLIST\n');
+  });
+});
@@ -0,0 +1,46 @@
+export interface HlsRendition {
+  // Directory and label, e.g. 720p
+  name: string;
+  width: number;
+  height: number;
+  videoKbps: number;
+}
+
+// Rungs are named after the short side, so portrait videos get the same ladder as landscape ones
+const LADDER: Array<{ size: number; videoKbps: number }> = [
+  { size: 1080, videoKbps: 5000 },
+  { size: 720, videoKbps: 2800 },
+  { size: 480, videoKbps: 1400 },
+  { size: 360, videoKbps: 800 },
+];
+
+export const HLS_AUDIO_KBPS = 128;
+
+const even = (n: number) => Math.max(Math.round(n / 2) * 2, 2);
+
+// Every rung at or below the source; a source smaller than the lowest rung gets a single rendition at its own size
+export function planHlsLadder(width: number, height: number): HlsRendition[] {
+  const short = Math.min(width, height);
+  const rungs = LADDER.filter((r) => r.size <= short);
+  const chosen = rungs.length ? rungs : [{ size: even(short), videoKbps: LADDER[LADDER.length - 1].videoKbps }];
+  return chosen.map(({ size, videoKbps }) => {
+    const scale = size / short;
+    return { name: `${size}p`, width: even(width * scale), height: even(height * scale), videoKbps };
+  });
+}
+
+export function buildMasterPlaylist(renditions: HlsRendition[], withAudio: boolean): string {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+  for (const r of renditions) {
+    const bandwidth = (r.videoKbps + (withAudio ? HLS_AUDIO_KBPS : 0)) * 1000;
+    lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${r.width}x${r.height}`, `${r.name}/index.m3u8`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+// Replaces every URI line (anything not a tag or blank) with whatever sign() returns for it
+export async function rewritePlaylistUris(playlist: string, sign: (uri: string) => Promise<string>): Promise<string> {
+  const lines = playlist.split(/\r?\n/);
+  const out = await Promise.all(lines.map((line) => (line.trim() && !line.startsWith('#') ? sign(line.trim()) : line)));
+  return out.join('\n');
+}
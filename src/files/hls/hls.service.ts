@@ -0,0 +1,90 @@
+import { Injectable, Inject, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileEntity } from '../entities/file.entity';
+import { FileProcessingService } from '../file-processing.service';
+import { STORAGE_PROVIDER } from '../storage/storage-provider';
+import type { StorageProvider } from '../storage/storage-provider';
+import { planHlsLadder, buildMasterPlaylist, rewritePlaylistUris } from './hls-ladder';
+
+// Adaptive HLS ladders for long, high-resolution videos, kept under hls/<id>/. Playlists are served through the
+// API so segment URIs can be signed on the way out; the stored copies only hold relative names
+@Injectable()
+export class HlsService {
+  private static readonly SEGMENT_SECONDS = 4;
+  private static readonly DEFAULT_MIN_DURATION_SECONDS = 300;
+  private static readonly MIN_SHORT_SIDE = 720;
+  // Segment URLs have to outlast a whole viewing, since players fetch a VOD playlist only once
+  private static readonly SEGMENT_URL_TTL_SECONDS = 6 * 60 * 60;
+  private static readonly PLAYLIST_PATH = /^(master|\d+p\/index)\.m3u8$/;
+
+  constructor(
+    @InjectRepository(FileEntity)
+    private readonly fileRepository: Repository<FileEntity>,
+    @Inject(STORAGE_PROVIDER)
+    private readonly storage: StorageProvider,
+    private readonly fileProcessingService: FileProcessingService,
+    private readonly config: ConfigService,
+  ) {}
+
+  // HLS_ENABLED turns the ladder on; HLS_MIN_DURATION_SECONDS sets what counts as long
+  shouldGenerate(media: { width?: number | null; height?: number | null; durationSeconds?: number }): boolean {
+    if (this.config.get<string>('HLS_ENABLED') !== 'true') return false;
+    const configured = Number(this.config.get<string>('HLS_MIN_DURATION_SECONDS'));
+    const minDuration = Number.isFinite(configured) && configured > 0 ? configured : HlsService.DEFAULT_MIN_DURATION_SECONDS;
+    const short = Math.min(media.width ?? 0, media.height ?? 0);
+    return (media.durationSeconds ?? 0) >= minDuration && short >= HlsService.MIN_SHORT_SIDE;
+  }
+
+  async generate(fileId: string, videoPath: string, media: { width: number; height: number; hasAudio: boolean }): Promise<void> {
+    const workDir = path.join(process.cwd(), 'temp', `hls_${fileId}_${Date.now()}`);
+    const prefix = `hls/${fileId}/`;
+    try {
+      await this.fileRepository.update(fileId, { hlsStatus: 'processing' });
+      const renditions = planHlsLadder(media.width, media.height);
+      // One rung at a time keeps a single ffmpeg running
+      for (const rendition of renditions) {
+        await this.fileProcessingService.transcodeHlsRendition(videoPath, path.join(workDir, rendition.name), rendition, media.hasAudio, HlsService.SEGMENT_SECONDS);
+      }
+      fs.writeFileSync(path.join(workDir, 'master.m3u8'), buildMasterPlaylist(renditions, media.hasAudio));
+      for (const relative of this.listFiles(workDir)) {
+        const contentType = relative.endsWith('.m3u8') ? 'application/vnd.apple.mpegurl' : 'video/mp2t';
+        await this.storage.uploadFile(path.join(workDir, relative), `${prefix}${relative}`, contentType);
+      }
+      await this.fileRepository.update(fileId, { hlsStatus: 'ready' });
+    } catch (e) {
+      console.error('HLS generation failed', (e as any)?.message || e);
+      await this.fileRepository.update(fileId, { hlsStatus: 'failed' }).catch(() => {});
+      // Don't leave a partial ladder behind
+      try { await this.storage.deleteObjects(await this.storage.listObjects(prefix)); } catch {}
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  // The master playlist goes out as stored (its variant URIs are relative, so they come back here);
+  // variant playlists get every segment URI replaced with a signed URL
+  async getPlaylist(id: string, ownerId: string, playlistPath: string): Promise<string> {
+    const file = await this.fileRepository.findOne({ where: { id, ownerId } });
+    if (!file || file.hlsStatus !== 'ready' || !HlsService.PLAYLIST_PATH.test(playlistPath)) {
+      throw new HttpException('Playlist not found', HttpStatus.NOT_FOUND);
+    }
+    const { body } = await this.storage.getObjectStream(`hls/${file.id}/${playlistPath}`);
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) chunks.push(Buffer.from(chunk));
+    const playlist = Buffer.concat(chunks).toString('utf8');
+    if (playlistPath === 'master.m3u8') return playlist;
+    const variantDir = path.posix.dirname(playlistPath);
+    return await rewritePlaylistUris(playlist, (uri) => this.storage.getSignedUrl(`hls/${file.id}/${variantDir}/${uri}`, HlsService.SEGMENT_URL_TTL_SECONDS));
+  }
+
+  private listFiles(dir: string, relative = ''): string[] {
+    return fs.readdirSync(path.join(dir, relative), { withFileTypes: true }).flatMap((entry) => {
+      const child = relative ? `${relative}/${entry.name}` : entry.name;
+      return entry.isDirectory() ? this.listFiles(dir, child) : [child];
+    });
+  }
+}
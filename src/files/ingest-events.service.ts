@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, Subject, filter } from 'rxjs';
+import type { IngestJobStatus } from './files.service';
+
+export interface IngestEvent {
+  type: 'state' | 'progress';
+  ownerId: string;
+  jobId: string;
+  status: IngestJobStatus;
+}
+
+// In-process fan-out of ingest job updates to SSE subscribers
+@Injectable()
+export class IngestEventsService {
+  private readonly events = new Subject<IngestEvent>();
+
+  emit(event: IngestEvent): void {
+    this.events.next(event);
+  }
+
+  forOwner(ownerId: string): Observable<IngestEvent> {
+    return this.events.asObservable().pipe(filter((e) => e.ownerId === ownerId));
+  }
+
+  forJob(jobId: string, ownerId: string): Observable<IngestEvent> {
+    return this.events.asObservable().pipe(filter((e) => e.jobId === jobId && e.ownerId === ownerId));
+  }
+}
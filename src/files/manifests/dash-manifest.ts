@@ -0,0 +1,168 @@
+export interface DashTrack {
+  id: string;
+  contentType: 'video' | 'audio' | 'other';
+  bandwidth: number;
+  width?: number;
+  height?: number;
+  codecs?: string;
+  mimeType?: string;
+  initUrl?: string;
+  segmentUrls: string[];
+}
+
+export interface DashManifest {
+  durationSec?: number;
+  tracks: DashTrack[];
+}
+
+interface XmlNode {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+export function isDashUrl(url: string): boolean {
+  return /\.mpd(\?|#|$)/i.test(url);
+}
+
+export function isDashContentType(contentType?: string): boolean {
+  return !!contentType && /dash\+xml/i.test(contentType);
+}
+
+// Just enough XML for MPDs: elements, attributes and text; no DTDs or namespaces
+function parseXml(xml: string): XmlNode {
+  const root: XmlNode = { name: '#root', attrs: {}, children: [], text: '' };
+  const stack: XmlNode[] = [root];
+  const cleaned = xml.replace(/<\?[\s\S]*?\?>/g, '').replace(/<!--[\s\S]*?-->/g, '').replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+  const tagRe = /<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = tagRe.exec(cleaned))) {
+    stack[stack.length - 1].text += cleaned.slice(last, m.index);
+    last = tagRe.lastIndex;
+    const [, closing, rawName, rawAttrs, selfClosing] = m;
+    const name = rawName.includes(':') ? rawName.split(':').pop()! : rawName;
+    if (closing) {
+      if (stack.length > 1) stack.pop();
+      continue;
+    }
+    const attrs: Record<string, string> = {};
+    for (const a of rawAttrs.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attrs[a[1]] = (a[2] ?? a[3]).replace(/&amp;/g, '&');
+    }
+    const node: XmlNode = { name, attrs, children: [], text: '' };
+    stack[stack.length - 1].children.push(node);
+    if (!selfClosing) stack.push(node);
+  }
+  return root;
+}
+
+const child = (node: XmlNode | undefined, name: string) => node?.children.find((c) => c.name === name);
+const children = (node: XmlNode | undefined, name: string) => node?.children.filter((c) => c.name === name) ?? [];
+
+// ISO-8601 durations as used by MPDs, e.g. PT1H2M3.5S
+export function parseIsoDuration(value?: string): number | undefined {
+  if (!value) return undefined;
+  const m = value.match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!m) return undefined;
+  const [, d, h, min, sec] = m.map((v) => (v ? parseFloat(v) : 0));
+  return d * 86400 + h * 3600 + min * 60 + sec;
+}
+
+function resolveBase(base: string, nodes: Array<XmlNode | undefined>): string {
+  let url = base;
+  for (const n of nodes) {
+    const b = child(n, 'BaseURL')?.text.trim();
+    if (b) {
+      try { url = new URL(b, url).toString(); } catch {}
+    }
+  }
+  return url;
+}
+
+function fillTemplate(template: string, values: { RepresentationID: string; Bandwidth: number; Number?: number; Time?: number }): string {
+  return template.replace(/\$(RepresentationID|Bandwidth|Number|Time)(?:%0(\d+)d)?\$/g, (_, key: string, width?: string) => {
+    const v = String((values as any)[key] ?? '');
+    return width ? v.padStart(parseInt(width, 10), '0') : v;
+  }).replace(/\$\$/g, '$');
+}
+
+function expandTemplate(tpl: XmlNode, rep: { id: string; bandwidth: number }, baseUrl: string, durationSec?: number): { initUrl?: string; segmentUrls: string[] } {
+  const timescale = parseInt(tpl.attrs['timescale'] || '1', 10) || 1;
+  const startNumber = parseInt(tpl.attrs['startNumber'] || '1', 10);
+  const media = tpl.attrs['media'];
+  const init = tpl.attrs['initialization'];
+  const vals = { RepresentationID: rep.id, Bandwidth: rep.bandwidth };
+  const abs = (u: string) => new URL(u, baseUrl).toString();
+  const segmentUrls: string[] = [];
+  if (media) {
+    const timeline = child(tpl, 'SegmentTimeline');
+    if (timeline) {
+      let number = startNumber;
+      let time = 0;
+      for (const s of children(timeline, 'S')) {
+        if (s.attrs['t'] !== undefined) time = parseInt(s.attrs['t'], 10);
+        const d = parseInt(s.attrs['d'], 10);
+        const repeat = parseInt(s.attrs['r'] || '0', 10);
+        for (let i = 0; i <= Math.max(repeat, 0); i++) {
+          segmentUrls.push(abs(fillTemplate(media, { ...vals, Number: number++, Time: time })));
+          time += d;
+        }
+      }
+    } else if (tpl.attrs['duration'] && durationSec) {
+      const segDuration = parseInt(tpl.attrs['duration'], 10) / timescale;
+      const count = Math.ceil(durationSec / segDuration);
+      for (let i = 0; i < count; i++) segmentUrls.push(abs(fillTemplate(media, { ...vals, Number: startNumber + i })));
+    }
+  }
+  return { initUrl: init ? abs(fillTemplate(init, vals)) : undefined, segmentUrls };
+}
+
+export function parseDashManifest(xml: string, manifestUrl: string): DashManifest {
+  const mpd = child(parseXml(xml), 'MPD');
+  if (!mpd) throw new Error('Not a DASH manifest');
+  if (mpd.attrs['type'] === 'dynamic') throw new Error('Live DASH streams are not supported');
+  const durationSec = parseIsoDuration(mpd.attrs['mediaPresentationDuration']);
+  const period = child(mpd, 'Period');
+  const tracks: DashTrack[] = [];
+  for (const set of children(period, 'AdaptationSet')) {
+    for (const rep of children(set, 'Representation')) {
+      const mimeType = rep.attrs['mimeType'] || set.attrs['mimeType'];
+      const kind = (set.attrs['contentType'] || mimeType || '').split('/')[0];
+      const id = rep.attrs['id'] || '';
+      const bandwidth = parseInt(rep.attrs['bandwidth'] || '0', 10) || 0;
+      const baseUrl = resolveBase(manifestUrl, [mpd, period, set, rep]);
+      const track: DashTrack = {
+        id,
+        contentType: kind === 'video' || kind === 'audio' ? kind : 'other',
+        bandwidth,
+        ...(rep.attrs['width'] ? { width: parseInt(rep.attrs['width'], 10) } : {}),
+        ...(rep.attrs['height'] ? { height: parseInt(rep.attrs['height'], 10) } : {}),
+        codecs: rep.attrs['codecs'] || set.attrs['codecs'],
+        mimeType,
+        segmentUrls: [],
+      };
+      const template = child(rep, 'SegmentTemplate') ?? child(set, 'SegmentTemplate');
+      const list = child(rep, 'SegmentList') ?? child(set, 'SegmentList');
+      if (template) {
+        Object.assign(track, expandTemplate(template, { id, bandwidth }, baseUrl, durationSec));
+      } else if (list) {
+        const init = child(list, 'Initialization');
+        if (init?.attrs['sourceURL']) track.initUrl = new URL(init.attrs['sourceURL'], baseUrl).toString();
+        track.segmentUrls = children(list, 'SegmentURL').filter((s) => s.attrs['media']).map((s) => new URL(s.attrs['media'], baseUrl).toString());
+      } else if (child(rep, 'BaseURL') || child(set, 'BaseURL')) {
+        // SegmentBase or a bare BaseURL: the whole representation is one file
+        track.segmentUrls = [baseUrl];
+      }
+      tracks.push(track);
+    }
+  }
+  return { durationSec, tracks };
+}
+
+export function selectBestTrack(manifest: DashManifest, contentType: 'video' | 'audio'): DashTrack | undefined {
+  return manifest.tracks
+    .filter((t) => t.contentType === contentType && t.segmentUrls.length > 0)
+    .sort((a, b) => ((b.height ?? 0) - (a.height ?? 0)) || (b.bandwidth - a.bandwidth))[0];
+}
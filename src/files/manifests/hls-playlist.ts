@@ -0,0 +1,154 @@
+export interface ByteRange {
+  length: number;
+  offset: number;
+}
+
+export interface HlsVariant {
+  uri: string;
+  bandwidth: number;
+  width?: number;
+  height?: number;
+  codecs?: string;
+  audioGroup?: string;
+}
+
+export interface HlsRendition {
+  type: string;
+  groupId: string;
+  uri?: string;
+  name?: string;
+  language?: string;
+  isDefault: boolean;
+}
+
+export interface HlsSegment {
+  uri: string;
+  duration: number;
+  byteRange?: ByteRange;
+}
+
+export interface HlsMasterPlaylist {
+  kind: 'master';
+  variants: HlsVariant[];
+  renditions: HlsRendition[];
+}
+
+export interface HlsMediaPlaylist {
+  kind: 'media';
+  segments: HlsSegment[];
+  // fMP4 playlists carry an init segment via EXT-X-MAP
+  initSegment?: { uri: string; byteRange?: ByteRange };
+  encryption?: string;
+  endList: boolean;
+}
+
+export type HlsPlaylist = HlsMasterPlaylist | HlsMediaPlaylist;
+
+export function isHlsUrl(url: string): boolean {
+  return /\.m3u8(\?|#|$)/i.test(url);
+}
+
+export function isHlsContentType(contentType?: string): boolean {
+  return !!contentType && /mpegurl/i.test(contentType);
+}
+
+function parseAttributes(list: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of list.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+    attrs[m[1]] = m[2].startsWith('"') ? m[2].slice(1, -1) : m[2];
+  }
+  return attrs;
+}
+
+function parseByteRange(value: string, nextOffset: number): ByteRange {
+  const [len, off] = value.split('@');
+  return { length: parseInt(len, 10), offset: off !== undefined ? parseInt(off, 10) : nextOffset };
+}
+
+function absolutize(uri: string, baseUrl: string): string {
+  try { return new URL(uri, baseUrl).toString(); } catch { return uri; }
+}
+
+export function parseHlsPlaylist(text: string, baseUrl: string): HlsPlaylist {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  if (lines[0] !== '#EXTM3U') throw new Error('Not an HLS playlist');
+
+  if (lines.some((l) => l.startsWith('#EXT-X-STREAM-INF'))) {
+    const variants: HlsVariant[] = [];
+    const renditions: HlsRendition[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      if (line.startsWith('#EXT-X-STREAM-INF:')) {
+        const attrs = parseAttributes(line.slice('#EXT-X-STREAM-INF:'.length));
+        const uri = lines[i + 1];
+        if (!uri || uri.startsWith('#')) continue;
+        const [w, h] = (attrs['RESOLUTION'] || '').split('x').map((n) => parseInt(n, 10));
+        variants.push({
+          uri: absolutize(uri, baseUrl),
+          bandwidth: parseInt(attrs['AVERAGE-BANDWIDTH'] || attrs['BANDWIDTH'] || '0', 10) || 0,
+          ...(w && h ? { width: w, height: h } : {}),
+          codecs: attrs['CODECS'],
+          audioGroup: attrs['AUDIO'],
+        });
+        i++;
+      } else if (line.startsWith('#EXT-X-MEDIA:')) {
+        const attrs = parseAttributes(line.slice('#EXT-X-MEDIA:'.length));
+        renditions.push({
+          type: attrs['TYPE'],
+          groupId: attrs['GROUP-ID'],
+          uri: attrs['URI'] ? absolutize(attrs['URI'], baseUrl) : undefined,
+          name: attrs['NAME'],
+          language: attrs['LANGUAGE'],
+          isDefault: attrs['DEFAULT'] === 'YES',
+        });
+      }
+    }
+    return { kind: 'master', variants, renditions };
+  }
+
+  const segments: HlsSegment[] = [];
+  let initSegment: HlsMediaPlaylist['initSegment'];
+  let encryption: string | undefined;
+  let pendingDuration: number | undefined;
+  let pendingRange: string | undefined;
+  let nextOffset = 0;
+  let endList = false;
+  for (const line of lines) {
+    if (line.startsWith('#EXTINF:')) {
+      pendingDuration = parseFloat(line.slice('#EXTINF:'.length).split(',')[0]) || 0;
+    } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+      pendingRange = line.slice('#EXT-X-BYTERANGE:'.length);
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const attrs = parseAttributes(line.slice('#EXT-X-MAP:'.length));
+      if (attrs['URI']) {
+        initSegment = { uri: absolutize(attrs['URI'], baseUrl), ...(attrs['BYTERANGE'] ? { byteRange: parseByteRange(attrs['BYTERANGE'], 0) } : {}) };
+      }
+    } else if (line.startsWith('#EXT-X-KEY:')) {
+      const method = parseAttributes(line.slice('#EXT-X-KEY:'.length))['METHOD'];
+      if (method && method !== 'NONE') encryption = method;
+    } else if (line === '#EXT-X-ENDLIST') {
+      endList = true;
+    } else if (!line.startsWith('#')) {
+      const segment: HlsSegment = { uri: absolutize(line, baseUrl), duration: pendingDuration ?? 0 };
+      if (pendingRange) {
+        segment.byteRange = parseByteRange(pendingRange, nextOffset);
+        nextOffset = segment.byteRange.offset + segment.byteRange.length;
+      }
+      segments.push(segment);
+      pendingDuration = undefined;
+      pendingRange = undefined;
+    }
+  }
+  return { kind: 'media', segments, initSegment, encryption, endList };
+}
+
+// Highest resolution wins, then bandwidth
+export function selectBestVariant(variants: HlsVariant[]): HlsVariant | undefined {
+  return [...variants].sort((a, b) => ((b.height ?? 0) - (a.height ?? 0)) || (b.bandwidth - a.bandwidth))[0];
+}
+
+export function selectAudioRendition(playlist: HlsMasterPlaylist, variant: HlsVariant): HlsRendition | undefined {
+  if (!variant.audioGroup) return undefined;
+  const group = playlist.renditions.filter((r) => r.type === 'AUDIO' && r.groupId === variant.audioGroup && r.uri);
+  return group.find((r) => r.isDefault) ?? group[0];
+}
@@ -0,0 +1,155 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { once } from 'events';
+import { MediaFetcherService } from '../media-fetcher.service';
+import { FileProcessingService } from '../file-processing.service';
+import { ByteRange, isHlsContentType, isHlsUrl, parseHlsPlaylist, selectAudioRendition, selectBestVariant, HlsMediaPlaylist } from './hls-playlist';
+import { isDashContentType, isDashUrl, parseDashManifest, selectBestTrack, DashTrack } from './dash-manifest';
+
+export type ManifestKind = 'hls' | 'dash';
+
+export interface ManifestTrack {
+  type: 'video' | 'audio' | 'muxed';
+  url: string;
+  bandwidth?: number;
+  width?: number;
+  height?: number;
+  codecs?: string;
+  segments: number;
+}
+
+export interface ManifestDownloadResult {
+  kind: ManifestKind;
+  // Local MP4 the caller owns and must delete
+  path: string;
+  tracks: ManifestTrack[];
+}
+
+export interface ManifestDownloadOptions {
+  signal?: AbortSignal;
+  onBytes?: (bytes: number) => void;
+}
+
+interface SegmentRef {
+  url: string;
+  range?: ByteRange;
+}
+
+@Injectable()
+export class ManifestDownloaderService {
+  // Guards against runaway playlists; ~7 hours of 5s segments
+  private static readonly MAX_SEGMENTS = 5000;
+
+  constructor(
+    private readonly fetcher: MediaFetcherService,
+    private readonly fileProcessingService: FileProcessingService,
+  ) {}
+
+  detect(url: string, contentType?: string): ManifestKind | null {
+    if (isHlsUrl(url) || isHlsContentType(contentType)) return 'hls';
+    if (isDashUrl(url) || isDashContentType(contentType)) return 'dash';
+    return null;
+  }
+
+  async download(url: string, kind: ManifestKind, options: ManifestDownloadOptions = {}): Promise<ManifestDownloadResult> {
+    return kind === 'hls' ? await this.downloadHls(url, options) : await this.downloadDash(url, options);
+  }
+
+  // For hosts that expose video and audio as separate progressive files rather than a manifest
+  async downloadTracks(videoUrl: string, audioUrl: string, options: ManifestDownloadOptions = {}): Promise<ManifestDownloadResult> {
+    const tracks: ManifestTrack[] = [{ type: 'video', url: videoUrl, segments: 1 }, { type: 'audio', url: audioUrl, segments: 1 }];
+    return await this.assemble('dash', [{ url: videoUrl }], [{ url: audioUrl }], tracks, options);
+  }
+
+  private async downloadHls(url: string, options: ManifestDownloadOptions): Promise<ManifestDownloadResult> {
+    const top = await this.fetcher.fetchText(url, options.signal);
+    const playlist = parseHlsPlaylist(top.text, top.finalUrl);
+    const tracks: ManifestTrack[] = [];
+    let video: HlsMediaPlaylist;
+    let audio: HlsMediaPlaylist | undefined;
+    if (playlist.kind === 'master') {
+      const variant = selectBestVariant(playlist.variants);
+      if (!variant) throw new Error('HLS master playlist has no variants');
+      video = await this.fetchMediaPlaylist(variant.uri, options.signal);
+      const rendition = selectAudioRendition(playlist, variant);
+      // Variants with an AUDIO group carry no sound of their own
+      if (rendition?.uri) audio = await this.fetchMediaPlaylist(rendition.uri, options.signal);
+      tracks.push({ type: audio ? 'video' : 'muxed', url: variant.uri, bandwidth: variant.bandwidth, width: variant.width, height: variant.height, codecs: variant.codecs, segments: video.segments.length });
+      if (audio && rendition?.uri) tracks.push({ type: 'audio', url: rendition.uri, segments: audio.segments.length });
+    } else {
+      video = playlist;
+      tracks.push({ type: 'muxed', url: top.finalUrl, segments: video.segments.length });
+    }
+
+    const toRefs = (p: HlsMediaPlaylist): SegmentRef[] => [
+      ...(p.initSegment ? [{ url: p.initSegment.uri, range: p.initSegment.byteRange }] : []),
+      ...p.segments.map((s) => ({ url: s.uri, range: s.byteRange })),
+    ];
+    return await this.assemble('hls', toRefs(video), audio ? toRefs(audio) : undefined, tracks, options);
+  }
+
+  private async fetchMediaPlaylist(url: string, signal?: AbortSignal): Promise<HlsMediaPlaylist> {
+    const res = await this.fetcher.fetchText(url, signal);
+    const playlist = parseHlsPlaylist(res.text, res.finalUrl);
+    if (playlist.kind !== 'media') throw new Error('Expected an HLS media playlist');
+    if (playlist.encryption) throw new Error(`Encrypted HLS streams are not supported (${playlist.encryption})`);
+    if (!playlist.endList) throw new Error('Live HLS streams are not supported');
+    if (playlist.segments.length === 0) throw new Error('HLS playlist has no segments');
+    return playlist;
+  }
+
+  private async downloadDash(url: string, options: ManifestDownloadOptions): Promise<ManifestDownloadResult> {
+    const res = await this.fetcher.fetchText(url, options.signal);
+    const manifest = parseDashManifest(res.text, res.finalUrl);
+    const video = selectBestTrack(manifest, 'video');
+    const audio = selectBestTrack(manifest, 'audio');
+    if (!video && !audio) throw new Error('DASH manifest has no downloadable tracks');
+    const toRefs = (t: DashTrack): SegmentRef[] => [...(t.initUrl ? [{ url: t.initUrl }] : []), ...t.segmentUrls.map((u) => ({ url: u }))];
+    const describe = (t: DashTrack, type: 'video' | 'audio'): ManifestTrack => ({ type, url: t.segmentUrls[0], bandwidth: t.bandwidth, width: t.width, height: t.height, codecs: t.codecs, segments: t.segmentUrls.length });
+    const primary = video ?? audio!;
+    const tracks = [describe(primary, video ? 'video' : 'audio'), ...(video && audio ? [describe(audio, 'audio')] : [])];
+    return await this.assemble('dash', toRefs(primary), video && audio ? toRefs(audio) : undefined, tracks, options);
+  }
+
+  private async assemble(kind: ManifestKind, primary: SegmentRef[], audio: SegmentRef[] | undefined, tracks: ManifestTrack[], options: ManifestDownloadOptions): Promise<ManifestDownloadResult> {
+    if (primary.length + (audio?.length ?? 0) > ManifestDownloaderService.MAX_SEGMENTS) {
+      throw new Error(`Stream has too many segments (max ${ManifestDownloaderService.MAX_SEGMENTS})`);
+    }
+    const tempDir = path.join(process.cwd(), 'temp');
+    if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
+    const stem = `${kind}_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+    const videoPath = path.join(tempDir, `${stem}_v`);
+    const audioPath = audio ? path.join(tempDir, `${stem}_a`) : undefined;
+    try {
+      await this.downloadSegments(primary, videoPath, options);
+      if (audio && audioPath) await this.downloadSegments(audio, audioPath, options);
+      options.signal?.throwIfAborted();
+      const outPath = await this.fileProcessingService.muxToMp4(videoPath, audioPath);
+      return { kind, path: outPath, tracks };
+    } finally {
+      try { fs.unlinkSync(videoPath); } catch {}
+      if (audioPath) { try { fs.unlinkSync(audioPath); } catch {} }
+    }
+  }
+
+  // Segments are fetched one at a time through the shared fetcher so host limits and headers apply
+  private async downloadSegments(segments: SegmentRef[], outPath: string, options: ManifestDownloadOptions): Promise<void> {
+    const out = fs.createWriteStream(outPath);
+    try {
+      for (const seg of segments) {
+        options.signal?.throwIfAborted();
+        const headers = this.fetcher.buildPoliteHeaders(seg.url);
+        if (seg.range) headers['Range'] = `bytes=${seg.range.offset}-${seg.range.offset + seg.range.length - 1}`;
+        const resp = await this.fetcher.fetchStreamWithBackoff(seg.url, headers, 3, options.signal);
+        for await (const chunk of resp.data as AsyncIterable<Buffer>) {
+          options.onBytes?.(chunk.length);
+          if (!out.write(chunk)) await once(out, 'drain');
+        }
+      }
+    } finally {
+      out.end();
+      await once(out, 'close').catch(() => {});
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { parseHlsPlaylist, selectAudioRendition, selectBestVariant, HlsMasterPlaylist, HlsMediaPlaylist } from './hls-playlist';
+import { parseDashManifest, parseIsoDuration, selectBestTrack } from './dash-manifest';
+
+describe('HLS playlists', () => {
+  it('picks the tallest variant and its default audio rendition', () => {
+    const master = parseHlsPlaylist([
+      '#EXTM3U',
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="English",DEFAULT=YES,URI="audio/en.m3u8"',
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="German",URI="audio/de.m3u8"',
+      '#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360,AUDIO="aud"',
+      '360p.m3u8',
+      '#EXT-X-STREAM-INF:BANDWIDTH=2400000,RESOLUTION=1280x720,CODECS="avc1.64001f,mp4a.40.2",AUDIO="aud"',
+      'https://cdn.example.com/720p.m3u8',
+    ].join('\n'), 'https://example.com/v/master.m3u8') as HlsMasterPlaylist;
+
+    expect(master.kind).toBe('master');
+    const best = selectBestVariant(master.variants)!;
+    expect(best).toMatchObject({ uri: 'https://cdn.example.com/720p.m3u8', height: 720, codecs: 'avc1.64001f,mp4a.40.2' });
+    expect(selectAudioRendition(master, best)?.uri).toBe('https://example.com/v/audio/en.m3u8');
+  });
+
+  it('reads segments, byte ranges, init maps and encryption from media playlists', () => {
+    const media = parseHlsPlaylist([
+      '#EXTM3U',
+      '#EXT-X-MAP:URI="init.mp4"',
+      '#EXT-X-KEY:METHOD=NONE',
+      '#EXTINF:4.0,',
+      '#EXT-X-BYTERANGE:1000@0',
+      'seg.m4s',
+      '#EXTINF:4.0,',
+      '#EXT-X-BYTERANGE:500',
+      'seg.m4s',
+      '#EXT-X-ENDLIST',
+    ].join('\r\n'), 'https://example.com/v/720p.m3u8') as HlsMediaPlaylist;
+
+    expect(media).toMatchObject({ kind: 'media', endList: true, encryption: undefined, initSegment: { uri: 'https://example.com/v/init.mp4' } });
+    expect(media.segments.map((s) => s.byteRange)).toEqual([{ length: 1000, offset: 0 }, { length: 500, offset: 1000 }]);
+
+    const encrypted = parseHlsPlaylist('#EXTM3U\n#EXT-X-KEY:METHOD=AES-128,URI="k"\n#EXTINF:2,\na.ts', 'https://example.com/') as HlsMediaPlaylist;
+    expect(encrypted).toMatchObject({ encryption: 'AES-128', endList: false });
+  });
+});
+
+describe('DASH manifests', () => {
+  it('parses ISO-8601 durations', () => {
+    expect(parseIsoDuration('PT1M30.5S')).toBe(90.5);
+    expect(parseIsoDuration('PT1H')).toBe(3600);
+    expect(parseIsoDuration('bogus')).toBeUndefined();
+  });
+
+  it('expands segment templates with and without a timeline', () => {
+    const manifest = parseDashManifest(`<?xml version="1.0"?>
+      <MPD xmlns="urn:mpeg:dash:schema:mpd:2011" type="static" mediaPresentationDuration="PT10S">
+        <Period>
+          <AdaptationSet contentType="video" mimeType="video/mp4">
+            <SegmentTemplate timescale="1000" duration="4000" initialization="$RepresentationID$/init.mp4" media="$RepresentationID$/seg-$Number%03d$.m4s" startNumber="1"/>
+            <Representation id="v480" bandwidth="900000" width="854" height="480"/>
+            <Representation id="v1080" bandwidth="4000000" width="1920" height="1080"/>
+          </AdaptationSet>
+          <AdaptationSet mimeType="audio/mp4">
+            <Representation id="a1" bandwidth="128000">
+              <SegmentTemplate timescale="48000" initialization="audio/init.mp4" media="audio/$Time$.m4s">
+                <SegmentTimeline><S t="0" d="96000" r="1"/><S d="48000"/></SegmentTimeline>
+              </SegmentTemplate>
+            </Representation>
+          </AdaptationSet>
+        </Period>
+      </MPD>`, 'https://example.com/v/manifest.mpd');
+
+    const video = selectBestTrack(manifest, 'video')!;
+    expect(video.id).toBe('v1080');
+    expect(video.initUrl).toBe('https://example.com/v/v1080/init.mp4');
+    expect(video.segmentUrls).toEqual(['https://example.com/v/v1080/seg-001.m4s', 'https://example.com/v/v1080/seg-002.m4s', 'https://example.com/v/v1080/seg-003.m4s']);
+
+    const audio = selectBestTrack(manifest, 'audio')!;
+    expect(audio.segmentUrls).toEqual(['https://example.com/v/audio/0.m4s', 'https://example.com/v/audio/96000.m4s', 'https://example.com/v/audio/192000.m4s']);
+  });
+
+  it('treats a BaseURL-only representation as a single file and rejects live manifests', () => {
+    const manifest = parseDashManifest(`<MPD type="static">
+        <Period>
+          <AdaptationSet contentType="video"><Representation id="1" bandwidth="1" height="720"><BaseURL>DASH_720.mp4</BaseURL></Representation></AdaptationSet>
+          <AdaptationSet contentType="audio"><Representation id="2" bandwidth="1"><BaseURL>DASH_AUDIO_128.mp4</BaseURL></Representation></AdaptationSet>
+        </Period>
+      </MPD>`, 'https://v.redd.it/abc/DASHPlaylist.mpd');
+
+    expect(selectBestTrack(manifest, 'video')?.segmentUrls).toEqual(['https://v.redd.it/abc/DASH_720.mp4']);
+    expect(selectBestTrack(manifest, 'audio')?.segmentUrls).toEqual(['https://v.redd.it/abc/DASH_AUDIO_128.mp4']);
+    expect(() => parseDashManifest('<MPD type="dynamic"><Period/></MPD>', 'https://example.com/live.mpd')).toThrow('Live DASH');
+  });
+});
@@ -0,0 +1,130 @@
+import { Injectable } from '@nestjs/common';
+import * as path from 'path';
+import axios from 'axios';
+
+// Downloads of remote media: browser-like headers, per-host concurrency and retry with backoff
+@Injectable()
+export class MediaFetcherService {
+  // Simple per-host concurrency limiter to avoid hammering domains like 4cdn
+  private hostLimits: Map<string, { active: number; queue: Array<() => void>; limit: number }> = new Map();
+
+  async withHostLimit<T>(hostname: string, limit: number, task: () => Promise<T>): Promise<T> {
+    let entry = this.hostLimits.get(hostname);
+    if (!entry) {
+      entry = { active: 0, queue: [], limit };
+      this.hostLimits.set(hostname, entry);
+    } else {
+      entry.limit = limit; // allow dynamic adjustment per call
+    }
+
+    const acquire = async () => {
+      if (entry!.active < entry!.limit) {
+        entry!.active++;
+        return;
+      }
+      await new Promise<void>((resolve) => entry!.queue.push(() => { entry!.active++; resolve(); }));
+    };
+
+    const release = () => {
+      entry!.active = Math.max(0, entry!.active - 1);
+      const next = entry!.queue.shift();
+      if (next) next();
+    };
+
+    await acquire();
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  buildPoliteHeaders(rawUrl: string): Record<string, string> {
+    try {
+      const u = new URL(rawUrl);
+      const ext = path.extname(u.pathname).toLowerCase();
+      const headers: Record<string, string> = {
+        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+      };
+      // Accept heuristics
+      if (ext === '.webm') headers['Accept'] = 'video/webm,video/*;q=0.9,*/*;q=0.8';
+      else if (ext === '.mp4' || ext === '.mov') headers['Accept'] = 'video/mp4,video/*;q=0.9,*/*;q=0.8';
+      else if (ext === '.gif') headers['Accept'] = 'image/gif,image/*;q=0.9,*/*;q=0.8';
+      else if (ext === '.jpg' || ext === '.jpeg') headers['Accept'] = 'image/jpeg,image/*;q=0.9,*/*;q=0.8';
+      else if (ext === '.png') headers['Accept'] = 'image/png,image/*;q=0.9,*/*;q=0.8';
+      else headers['Accept'] = '*/*';
+
+      // Referer for known hosts that enforce it
+      if (u.hostname === 'i.4cdn.org' || u.hostname.endsWith('4cdn.org')) {
+        // path like /gif/<file> → board is first segment
+        const seg = u.pathname.split('/').filter(Boolean)[0] || '';
+        headers['Referer'] = seg ? `https://boards.4chan.org/${seg}/` : 'https://boards.4chan.org/';
+        headers['Origin'] = 'https://boards.4chan.org';
+        headers['Accept-Language'] = 'en-US,en;q=0.9';
+      } else if (u.hostname.endsWith('redgifs.com')) {
+        headers['Referer'] = 'https://www.redgifs.com/';
+      } else if (u.hostname.endsWith('imgur.com')) {
+        headers['Referer'] = 'https://imgur.com/';
+      }
+      return headers;
+    } catch {
+      return { 'User-Agent': 'Mozilla/5.0', 'Accept': '*/*' };
+    }
+  }
+
+  private async sleep(ms: number) { await new Promise((r) => setTimeout(r, ms)); }
+
+  async fetchStreamWithBackoff(url: string, headers: Record<string, string> = {}, maxRetries = 3, signal?: AbortSignal) {
+    let lastErr: any;
+    let hostname = 'unknown';
+    try { hostname = new URL(url).hostname; } catch {}
+    const hostLimit = hostname.endsWith('4cdn.org') ? 1 : 4;
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      signal?.throwIfAborted();
+      try {
+        const resp = await this.withHostLimit(hostname, hostLimit, async () => {
+          return await axios({ method: 'GET', url, responseType: 'stream', headers, maxRedirects: 3, timeout: 20000, signal, validateStatus: (s) => s < 500 || s === 429 });
+        });
+        if (resp.status === 429) {
+          const ra = Number(resp.headers?.['retry-after'] || 0);
+          const delay = ra > 0 ? ra * 1000 : (1000 << Math.min(attempt, 3)) + Math.floor(Math.random() * 250);
+          if (attempt === maxRetries) throw new Error('HTTP 429 Too Many Requests');
+          await this.sleep(delay);
+          continue;
+        }
+        if (resp.status >= 200 && resp.status < 300) return resp;
+        throw new Error(`Unexpected status ${resp.status}`);
+      } catch (e: any) {
+        lastErr = e;
+        if (signal?.aborted) throw e;
+        const status = e?.response?.status;
+        if (status === 429 && attempt < maxRetries) {
+          const ra = Number(e?.response?.headers?.['retry-after'] || 0);
+          const delay = ra > 0 ? ra * 1000 : (1000 << Math.min(attempt, 3)) + Math.floor(Math.random() * 250);
+          await this.sleep(delay);
+          continue;
+        }
+        if (attempt === maxRetries) break;
+        await this.sleep((500 << Math.min(attempt, 3)) + Math.floor(Math.random() * 200));
+      }
+    }
+    throw lastErr || new Error('Failed to fetch stream');
+  }
+
+  // Small text bodies such as playlists and manifests
+  async fetchText(url: string, signal?: AbortSignal, maxBytes = 5 * 1024 * 1024): Promise<{ text: string; finalUrl: string; contentType?: string }> {
+    const resp = await this.fetchStreamWithBackoff(url, this.buildPoliteHeaders(url), 3, signal);
+    const chunks: Buffer[] = [];
+    let total = 0;
+    for await (const chunk of resp.data as AsyncIterable<Buffer>) {
+      total += chunk.length;
+      if (total > maxBytes) {
+        resp.data.destroy?.();
+        throw new Error(`Response from ${url} exceeds ${maxBytes} bytes`);
+      }
+      chunks.push(chunk);
+    }
+    const finalUrl: string = resp.request?.res?.responseUrl || url;
+    return { text: Buffer.concat(chunks).toString('utf8'), finalUrl, contentType: resp.headers?.['content-type'] as any };
+  }
+}
@@ -0,0 +1,20 @@
+import { MediaJobQueueService } from './media-job-queue.service';
+
+describe('MediaJobQueueService', () => {
+  it('runs one task at a time and keeps going after a failure', async () => {
+    const queue = new MediaJobQueueService();
+    const events: string[] = [];
+    const task = (name: string, fail = false) => async () => {
+      events.push(`start ${name}`);
+      await new Promise((r) => setTimeout(r, 5));
+      events.push(`end ${name}`);
+      if (fail) throw new Error(name);
+      return name;
+    };
+    const first = queue.run(task('a', true));
+    const second = queue.run(task('b'));
+    await expect(first).rejects.toThrow('a');
+    await expect(second).resolves.toBe('b');
+    expect(events).toEqual(['start a', 'end a', 'start b', 'end b']);
+  });
+});
@@ -0,0 +1,16 @@
+import { Injectable } from '@nestjs/common';
+
+// The one queue the heavy ffmpeg encodes go through (transcodes, storyboards, hover previews, HLS ladders), so
+// concurrent uploads never run them side by side. Fingerprint frame sampling stays with the upload: it only decodes
+// small frames and the upload holds its temp file until it's done. Tasks run strictly one after another; a failure
+// doesn't stop the next
+@Injectable()
+export class MediaJobQueueService {
+  private tail: Promise<void> = Promise.resolve();
+
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task);
+    this.tail = result.then(() => undefined, () => undefined);
+    return result;
+  }
+}
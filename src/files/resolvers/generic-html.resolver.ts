@@ -0,0 +1,106 @@
+import { Injectable } from '@nestjs/common';
+import { MediaResolver, ResolvedMedia } from './media-resolver';
+import { ResolverHttpClient } from './resolver-http.client';
+
+const DIRECT_MEDIA = /\.(mp4|webm|mov|mkv|m3u8|mpd)(\?|#|$)/i;
+const VIDEO_MEDIA = /\.(mp4|webm|mov|m3u8|mpd)(\?|#|$)/i;
+
+// Fallback for arbitrary pages: discover a direct video URL from the HTML
+@Injectable()
+export class GenericHtmlResolver implements MediaResolver {
+  readonly name = 'generic';
+  readonly priority = 0;
+
+  constructor(private readonly http: ResolverHttpClient) {}
+
+  canHandle(): boolean {
+    return true;
+  }
+
+  async resolve(rawUrl: string): Promise<ResolvedMedia[]> {
+    return [{ url: await this.findVideoUrl(rawUrl) }];
+  }
+
+  async findVideoUrl(rawUrl: string): Promise<string> {
+    // If already a likely direct media URL, return as-is
+    if (DIRECT_MEDIA.test(rawUrl)) {
+      return rawUrl;
+    }
+    try {
+      const page = await this.http.get(rawUrl, {
+        timeout: 8000,
+        headers: { 'User-Agent': 'Mozilla/5.0', 'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8' },
+        maxRedirects: 5,
+        validateStatus: (s) => !!s && s < 500,
+      });
+      const html = String(page.data || '');
+      const base = new URL(page.request?.res?.responseUrl || page.request?.responseURL || rawUrl);
+
+      const absolutize = (u: string): string => {
+        try { return new URL(u, base).toString(); } catch { return u; }
+      };
+
+      // 1) JSON-LD VideoObject
+      const ldScripts = Array.from(html.matchAll(/<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi));
+      for (const m of ldScripts) {
+        try {
+          const json = JSON.parse(m[1]);
+          const objs = Array.isArray(json) ? json : [json];
+          for (const obj of objs) {
+            const type = (obj['@type'] || obj['type'] || '').toString().toLowerCase();
+            if (type.includes('videoobject')) {
+              const candidate = obj['contentUrl'] || obj['embedUrl'] || obj['url'];
+              if (candidate && typeof candidate === 'string') {
+                const direct = absolutize(candidate);
+                if (VIDEO_MEDIA.test(direct)) return direct;
+              }
+            }
+          }
+        } catch {}
+      }
+
+      // 2) OpenGraph/Twitter video
+      const ogVideo = (html.match(/property=["']og:video["']\s+content=["']([^"']+)["']/i) || html.match(/content=["']([^"']+)["']\s+property=["']og:video["']/i))?.[1];
+      if (ogVideo) {
+        const direct = absolutize(ogVideo);
+        if (VIDEO_MEDIA.test(direct)) return direct;
+      }
+
+      // 3) <video> and <source> tags
+      const videoSrcs: string[] = [];
+      for (const m of html.matchAll(/<video[^>]*src=["']([^"']+)["'][^>]*>/gi)) { videoSrcs.push(absolutize(m[1])); }
+      for (const m of html.matchAll(/<source[^>]*type=["']video\/(mp4|webm|ogg)["'][^>]*src=["']([^"']+)["'][^>]*>/gi)) { videoSrcs.push(absolutize(m[2])); }
+      for (const m of html.matchAll(/<source[^>]*src=["']([^"']+\.(?:mp4|webm|mov|m3u8|mpd))(?:\?[^"']*)?["'][^>]*>/gi)) { videoSrcs.push(absolutize(m[1])); }
+      if (videoSrcs.length > 0) {
+        // Prefer mp4/webm, then m3u8/mpd
+        const preferred = [...videoSrcs].sort((a, b) => {
+          const score = (u: string) => (/\.mp4(\?|#|$)/i.test(u) ? 3 : /\.webm(\?|#|$)/i.test(u) ? 2 : /\.(m3u8|mpd)(\?|#|$)/i.test(u) ? 1 : 0);
+          return score(b) - score(a);
+        });
+        for (const u of preferred) {
+          if (await this.headOk(u)) return u;
+        }
+      }
+
+      // 4) Heuristic: absolute links to common video extensions in page text
+      const linkMatches = Array.from(html.matchAll(/https?:[^\s"'<>]+\.(?:mp4|webm|mov|m3u8|mpd)(?:\?[^\s"'<>]*)?/gi)).map(m => absolutize(m[0]));
+      for (const u of linkMatches) {
+        if (await this.headOk(u)) return u;
+      }
+
+      // If nothing found, return original
+      return rawUrl;
+    } catch {
+      return rawUrl;
+    }
+  }
+
+  private async headOk(url: string): Promise<boolean> {
+    try {
+      const head = await this.http.head(url, { timeout: 3000, headers: { 'User-Agent': 'Mozilla/5.0' } });
+      return head.status < 400;
+    } catch {
+      return false;
+    }
+  }
+}
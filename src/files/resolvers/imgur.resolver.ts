@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MediaResolver, ResolvedMedia, hostMatches } from './media-resolver';
+import { ResolverHttpClient } from './resolver-http.client';
+
+@Injectable()
+export class ImgurResolver implements MediaResolver {
+  readonly name = 'imgur';
+  readonly priority = 90;
+
+  constructor(
+    private readonly http: ResolverHttpClient,
+    private readonly config: ConfigService,
+  ) {}
+
+  canHandle(url: string): boolean {
+    // Direct .gif/.mp4 links need no resolving
+    return hostMatches(url, 'imgur.com') && !url.endsWith('.gif') && !url.endsWith('.mp4');
+  }
+
+  async resolve(url: string): Promise<ResolvedMedia[]> {
+    try {
+      const album = this.parseAlbumId(url);
+      if (album) return (await this.resolveAlbum(album)).map((u) => ({ url: u }));
+      const imgurId = url.split('/').pop()?.split('.')[0];
+      if (!imgurId) { throw new Error('Could not extract Imgur ID'); }
+      const formats = ['.gif', '.mp4', '.jpg', '.png'];
+      for (const format of formats) {
+        const directUrl = `https://i.imgur.com/${imgurId}${format}`;
+        try { const response = await this.http.head(directUrl); if (response.status === 200) { return [{ url: directUrl }]; } } catch {}
+      }
+      throw new Error('Could not find valid Imgur media format');
+    } catch (error) {
+      console.error('Error resolving Imgur URL:', error);
+      throw new Error(`Failed to resolve Imgur URL: ${error.message}`);
+    }
+  }
+
+  // /a/<id> and /gallery/<id>, where newer links prefix the id with a title slug
+  private parseAlbumId(url: string): string | null {
+    try {
+      const parts = new URL(url).pathname.split('/').filter(Boolean);
+      if (parts.length < 2 || (parts[0] !== 'a' && parts[0] !== 'gallery')) return null;
+      return parts[1].split('-').pop() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async resolveAlbum(albumId: string): Promise<string[]> {
+    const clientId = this.config.get<string>('IMGUR_CLIENT_ID');
+    if (clientId) {
+      try {
+        const resp = await this.http.get(`https://api.imgur.com/3/album/${albumId}/images`, { timeout: 8000, headers: { Authorization: `Client-ID ${clientId}` } });
+        const images: any[] = Array.isArray(resp.data?.data) ? resp.data.data : [];
+        // Animated uploads expose an mp4 alongside the gif link
+        const urls = images.map((img) => img?.mp4 || img?.link).filter((u): u is string => typeof u === 'string');
+        if (urls.length > 0) return urls;
+      } catch {}
+    }
+
+    // Without API credentials, the album page embeds its post data as an escaped JSON string
+    const page = await this.http.get(`https://imgur.com/a/${albumId}`, { timeout: 8000, headers: { 'User-Agent': 'Mozilla/5.0' } });
+    const match = String(page.data || '').match(/window\.postDataJSON\s*=\s*"((?:[^"\\]|\\.)*)"/);
+    if (!match) throw new Error('Could not find album data');
+    const post = JSON.parse(JSON.parse(`"${match[1]}"`));
+    const urls = (Array.isArray(post?.media) ? post.media : []).map((m: any) => m?.url).filter((u: any): u is string => typeof u === 'string');
+    if (urls.length === 0) throw new Error('Album has no media');
+    return urls;
+  }
+}
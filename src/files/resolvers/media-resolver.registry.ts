@@ -0,0 +1,21 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { MEDIA_RESOLVERS, MediaResolver, ResolveContext, ResolvedMedia } from './media-resolver';
+
+@Injectable()
+export class MediaResolverRegistry {
+  private readonly resolvers: MediaResolver[];
+  private readonly context: ResolveContext = { resolve: (url) => this.resolve(url) };
+
+  constructor(@Inject(MEDIA_RESOLVERS) resolvers: MediaResolver[]) {
+    this.resolvers = [...resolvers].sort((a, b) => b.priority - a.priority);
+  }
+
+  // The first resolver that claims the URL decides; its errors propagate to the caller
+  async resolve(url: string): Promise<ResolvedMedia[]> {
+    const resolver = this.resolvers.find((r) => r.canHandle(url));
+    if (!resolver) return [{ url }];
+    const media = await resolver.resolve(url, this.context);
+    if (media.length === 0) return [{ url, resolver: resolver.name }];
+    return media.map((m) => ({ ...m, resolver: m.resolver ?? resolver.name }));
+  }
+}
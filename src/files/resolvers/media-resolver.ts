@@ -0,0 +1,31 @@
+export interface ResolvedMedia {
+  url: string;
+  // Separate sound track to mux in when the video rendition is silent (v.redd.it DASH)
+  audioUrl?: string;
+  // Name of the resolver that produced this item (filled in by the registry)
+  resolver?: string;
+}
+
+export interface ResolveContext {
+  // Re-enter the registry, e.g. when a Reddit post embeds a Redgifs clip
+  resolve(url: string): Promise<ResolvedMedia[]>;
+}
+
+export interface MediaResolver {
+  readonly name: string;
+  // Higher runs first; the generic HTML resolver sits at 0 and accepts anything
+  readonly priority: number;
+  canHandle(url: string): boolean;
+  resolve(url: string, context: ResolveContext): Promise<ResolvedMedia[]>;
+}
+
+export const MEDIA_RESOLVERS = Symbol('MEDIA_RESOLVERS');
+
+export function hostMatches(rawUrl: string, ...domains: string[]): boolean {
+  try {
+    const host = new URL(rawUrl).hostname.toLowerCase();
+    return domains.some((d) => host === d || host.endsWith(`.${d}`));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,160 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MEDIA_RESOLVERS, MediaResolver } from './media-resolver';
+import { MediaResolverRegistry } from './media-resolver.registry';
+import { ResolverHttpClient } from './resolver-http.client';
+import { RedgifsResolver } from './redgifs.resolver';
+import { ImgurResolver } from './imgur.resolver';
+import { RedditResolver } from './reddit.resolver';
+import { TwitterResolver } from './twitter.resolver';
+import { GenericHtmlResolver } from './generic-html.resolver';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+// Serves recorded responses by exact URL; anything else fails like an unreachable host
+class FixtureHttpClient {
+  gets = new Map<string, { status?: number; data: any; finalUrl?: string }>();
+  heads = new Map<string, number>();
+
+  get(url: string) {
+    const hit = this.gets.get(url);
+    if (!hit) return Promise.reject(new Error(`No fixture for GET ${url}`));
+    return Promise.resolve({ status: hit.status ?? 200, data: hit.data, headers: {}, request: { res: { responseUrl: hit.finalUrl ?? url } } });
+  }
+
+  head(url: string) {
+    const status = this.heads.get(url);
+    if (status === undefined) return Promise.reject(new Error(`No fixture for HEAD ${url}`));
+    return Promise.resolve({ status, data: '', headers: {} });
+  }
+}
+
+describe('Media resolvers', () => {
+  let http: FixtureHttpClient;
+  let registry: MediaResolverRegistry;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => jest.restoreAllMocks());
+
+  beforeEach(async () => {
+    http = new FixtureHttpClient();
+    const resolvers = [RedgifsResolver, ImgurResolver, RedditResolver, TwitterResolver, GenericHtmlResolver];
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        { provide: ResolverHttpClient, useValue: http },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+        ...resolvers,
+        { provide: MEDIA_RESOLVERS, useFactory: (...r: MediaResolver[]) => r, inject: resolvers },
+        MediaResolverRegistry,
+      ],
+    }).compile();
+    registry = module.get(MediaResolverRegistry);
+  });
+
+  it('dispatches by host and falls back to the generic resolver', async () => {
+    const generic = await registry.resolve('https://cdn.example.com/clip.mp4');
+    expect(generic).toEqual([{ url: 'https://cdn.example.com/clip.mp4', resolver: 'generic' }]);
+
+    // "x.com" inside another hostname must not be treated as Twitter
+    const lookalike = await registry.resolve('https://netflix.com/video.webm');
+    expect(lookalike[0].resolver).toBe('generic');
+  });
+
+  it('resolves an Imgur page to the first direct format that exists', async () => {
+    http.heads.set('https://i.imgur.com/AbC123.mp4', 200);
+    expect(await registry.resolve('https://imgur.com/AbC123')).toEqual([{ url: 'https://i.imgur.com/AbC123.mp4', resolver: 'imgur' }]);
+  });
+
+  it('resolves a Redgifs watch page through the API', async () => {
+    http.gets.set('https://api.redgifs.com/v2/auth/temporary', { data: { token: 'tkn' } });
+    http.gets.set('https://api.redgifs.com/v2/gifs/quietgreenfrog', { data: JSON.parse(fixture('redgifs-gif.json')) });
+    const [media] = await registry.resolve('https://www.redgifs.com/watch/quietgreenfrog?utm_source=x');
+    expect(media).toEqual({ url: 'https://media.redgifs.com/QuietGreenFrog.mp4', resolver: 'redgifs' });
+  });
+
+  it('resolves a Reddit video post to the best available DASH rendition', async () => {
+    const postUrl = 'https://www.reddit.com/r/aww/comments/1abcde/cat_jumps_over_fence/';
+    http.gets.set(postUrl, { data: fixture('reddit-post-page.html') });
+    http.gets.set('https://www.reddit.com/r/aww/comments/1abcde/cat_jumps_over_fence.json?raw_json=1', { data: JSON.parse(fixture('reddit-video-post.json')) });
+    http.heads.set('https://v.redd.it/k3x9q2w1z8/DASH_720.mp4', 200);
+    const [media] = await registry.resolve(`${postUrl}?share_id=abc`);
+    expect(media).toEqual({ url: 'https://v.redd.it/k3x9q2w1z8/DASH_720.mp4', resolver: 'reddit' });
+  });
+
+  it('pairs silent v.redd.it renditions with their audio track', async () => {
+    const postUrl = 'https://www.reddit.com/r/aww/comments/1abcde/cat_jumps_over_fence/';
+    http.gets.set(postUrl, { data: fixture('reddit-post-page.html') });
+    http.gets.set('https://www.reddit.com/r/aww/comments/1abcde/cat_jumps_over_fence.json?raw_json=1', { data: JSON.parse(fixture('reddit-video-post.json')) });
+    http.heads.set('https://v.redd.it/k3x9q2w1z8/DASH_720.mp4', 200);
+    http.heads.set('https://v.redd.it/k3x9q2w1z8/DASH_AUDIO_128.mp4', 200);
+    expect(await registry.resolve(postUrl)).toEqual([{ url: 'https://v.redd.it/k3x9q2w1z8/DASH_720.mp4', audioUrl: 'https://v.redd.it/k3x9q2w1z8/DASH_AUDIO_128.mp4', resolver: 'reddit' }]);
+
+    // Unguessable track names are read from the DASH manifest
+    http.heads.delete('https://v.redd.it/k3x9q2w1z8/DASH_AUDIO_128.mp4');
+    http.gets.set('https://v.redd.it/k3x9q2w1z8/DASHPlaylist.mpd', { data: fixture('reddit-dash-playlist.mpd') });
+    const [media] = await registry.resolve(postUrl);
+    expect(media.audioUrl).toBe('https://v.redd.it/k3x9q2w1z8/CMAF_AUDIO_128.mp4');
+  });
+
+  it('hands Redgifs embeds in Reddit posts back to the registry', async () => {
+    const postUrl = 'https://www.reddit.com/comments/1fghij';
+    http.gets.set(postUrl, { data: '<html></html>' });
+    http.gets.set(`${postUrl}.json?raw_json=1`, { data: JSON.parse(fixture('reddit-redgifs-post.json')) });
+    http.heads.set('https://media.redgifs.com/Quietgreenfrog.mp4', 200);
+    const [media] = await registry.resolve(postUrl);
+    expect(media.url).toBe('https://media.redgifs.com/Quietgreenfrog.mp4');
+  });
+
+  it('returns every item of a Reddit gallery in order, skipping failed media', async () => {
+    const postUrl = 'https://www.reddit.com/gallery/1gal01';
+    http.gets.set(postUrl, { data: '<html></html>' });
+    http.gets.set(`${postUrl}.json?raw_json=1`, { data: JSON.parse(fixture('reddit-gallery-post.json')) });
+    expect((await registry.resolve(postUrl)).map((m) => m.url)).toEqual([
+      'https://preview.redd.it/b2c3.png?width=1200&format=png&s=bbb',
+      'https://preview.redd.it/a1b2.jpg?width=3000&format=pjpg&s=aaa',
+      'https://preview.redd.it/c3d4.gif?format=mp4&s=ccc',
+    ]);
+  });
+
+  it('expands Imgur albums from the embedded post data', async () => {
+    http.gets.set('https://imgur.com/a/XyZ789', { data: fixture('imgur-album.html') });
+    const media = await registry.resolve('https://imgur.com/gallery/weekend-hike-XyZ789');
+    expect(media).toEqual([
+      { url: 'https://i.imgur.com/Aa11Bb2.jpeg', resolver: 'imgur' },
+      { url: 'https://i.imgur.com/Cc33Dd4.mp4', resolver: 'imgur' },
+    ]);
+  });
+
+  it('returns all photos and the best MP4 of a multi-media tweet', async () => {
+    // The resolver derives the token from the id as a (rounded) double
+    const token = ((Number('1790000000000000001') / 1e15) * Math.PI).toString(36).replace(/(0+|\.)/g, '');
+    http.gets.set(`https://cdn.syndication.twimg.com/tweet-result?id=1790000000000000001&token=${token}`, { data: JSON.parse(fixture('twitter-syndication.json')) });
+    expect((await registry.resolve('https://x.com/someone/status/1790000000000000001')).map((m) => m.url)).toEqual([
+      'https://pbs.twimg.com/media/GAaaaaaXkAA1.jpg?name=orig',
+      'https://video.twimg.com/ext_tw_video/1790000000000000001/pu/vid/1280x720/high.mp4',
+      'https://pbs.twimg.com/media/GAbbbbbXkAA2.png?name=orig',
+    ]);
+  });
+
+  it('prefers MP4 over HLS when scraping a tweet', async () => {
+    http.gets.set('https://twitter.com/someone/status/1790000000000000000', { data: fixture('twitter-status.html') });
+    http.heads.set('https://video.twimg.com/ext_tw_video/1790000000000000000/pu/vid/1280x720/clip.mp4?tag=12', 200);
+    const [media] = await registry.resolve('https://x.com/someone/status/1790000000000000000?s=20');
+    expect(media).toEqual({ url: 'https://video.twimg.com/ext_tw_video/1790000000000000000/pu/vid/1280x720/clip.mp4?tag=12', resolver: 'twitter' });
+  });
+
+  it('finds video URLs on generic pages via JSON-LD and <source> tags', async () => {
+    http.gets.set('https://example.com/watch/sample', { data: fixture('generic-jsonld.html') });
+    expect((await registry.resolve('https://example.com/watch/sample'))[0].url).toBe('https://example.com/media/sample-clip.mp4');
+
+    http.gets.set('https://example.org/player', { data: fixture('generic-video-tags.html') });
+    http.heads.set('https://cdn.example.org/v/clip.webm', 200);
+    expect((await registry.resolve('https://example.org/player'))[0].url).toBe('https://cdn.example.org/v/clip.webm');
+  });
+});
@@ -0,0 +1,286 @@
+import { Injectable } from '@nestjs/common';
+import { MediaResolver, ResolveContext, ResolvedMedia, hostMatches } from './media-resolver';
+import { ResolverHttpClient } from './resolver-http.client';
+import { parseDashManifest, selectBestTrack } from '../manifests/dash-manifest';
+
+@Injectable()
+export class RedditResolver implements MediaResolver {
+  readonly name = 'reddit';
+  readonly priority = 80;
+
+  constructor(private readonly http: ResolverHttpClient) {}
+
+  canHandle(url: string): boolean {
+    return hostMatches(url, 'reddit.com', 'redd.it');
+  }
+
+  async resolve(url: string, context: ResolveContext): Promise<ResolvedMedia[]> {
+    const resolved = await this.resolveUrl(url, context);
+    if (Array.isArray(resolved)) return resolved.map((u) => ({ url: u }));
+    const mediaUrl = resolved;
+    // v.redd.it DASH renditions are video-only; the sound lives in a sibling track
+    const audioUrl = await this.findVRedditAudio(mediaUrl);
+    return [{ url: mediaUrl, ...(audioUrl ? { audioUrl } : {}) }];
+  }
+
+  private async findVRedditAudio(videoUrl: string): Promise<string | undefined> {
+    let id: string;
+    try {
+      const u = new URL(videoUrl);
+      if (u.hostname.toLowerCase() !== 'v.redd.it' || !/\/DASH_\d+\.mp4$/i.test(u.pathname)) return undefined;
+      id = u.pathname.split('/').filter(Boolean)[0];
+    } catch {
+      return undefined;
+    }
+    const candidates = [
+      `https://v.redd.it/${id}/DASH_AUDIO_128.mp4`,
+      `https://v.redd.it/${id}/DASH_AUDIO_64.mp4`,
+      `https://v.redd.it/${id}/DASH_audio.mp4`,
+      `https://v.redd.it/${id}/audio`,
+    ];
+    for (const c of candidates) {
+      try {
+        const resp = await this.http.head(c, { timeout: 2500, headers: { 'User-Agent': 'Mozilla/5.0' } });
+        if (resp.status >= 200 && resp.status < 400) return c;
+      } catch {}
+    }
+    // Track names vary between upload eras; the manifest is authoritative when the guesses miss
+    try {
+      const manifestUrl = `https://v.redd.it/${id}/DASHPlaylist.mpd`;
+      const resp = await this.http.get(manifestUrl, { timeout: 5000, headers: { 'User-Agent': 'Mozilla/5.0' }, responseType: 'text' });
+      const audio = selectBestTrack(parseDashManifest(String(resp.data || ''), manifestUrl), 'audio');
+      if (audio && !audio.initUrl && audio.segmentUrls.length === 1) return audio.segmentUrls[0];
+    } catch {}
+    // Silent clips simply have no audio track
+    return undefined;
+  }
+
+  private async ensureDirectFromVReddit(id: string): Promise<string> {
+    const candidates = [
+      `https://v.redd.it/${id}/DASH_1080.mp4`,
+      `https://v.redd.it/${id}/DASH_720.mp4`,
+      `https://v.redd.it/${id}/DASH_480.mp4`,
+      `https://v.redd.it/${id}/DASH_360.mp4`,
+      `https://v.redd.it/${id}/DASH_240.mp4`,
+    ];
+    for (const c of candidates) {
+      try {
+        const resp = await this.http.head(c, { timeout: 2500, headers: { 'User-Agent': 'Mozilla/5.0' } });
+        if (resp.status >= 200 && resp.status < 400) return c;
+      } catch {}
+    }
+    return `https://v.redd.it/${id}/HLSPlaylist.m3u8`;
+  }
+
+  // Every image of a gallery post (or of the gallery it crossposts), in the author's order
+  private extractGalleryFromJson(json: any): string[] {
+    try {
+      const root = Array.isArray(json) ? (json[0]?.data?.children?.[0]?.data ?? {}) : json?.data?.children?.[0]?.data ?? json;
+      const cp = (root.crosspost_parent_list && root.crosspost_parent_list[0]) || {};
+      const post = root.gallery_data ? root : cp;
+      if (!post.gallery_data || !post.media_metadata) return [];
+      const urls: string[] = [];
+      for (const item of post.gallery_data.items ?? []) {
+        const meta = post.media_metadata[item?.media_id];
+        if (!meta || meta.status === 'failed') continue;
+        // Animated items carry an mp4 rendition; stills only a source image
+        let galleryUrl = meta.s?.mp4 || meta.s?.u || meta.s?.gif;
+        // Fallback to highest available preview if source missing
+        if (!galleryUrl && Array.isArray(meta.p) && meta.p.length > 0) {
+          galleryUrl = meta.p[meta.p.length - 1]?.u;
+        }
+        if (galleryUrl && typeof galleryUrl === 'string') urls.push(String(galleryUrl).replace(/&amp;/g, '&'));
+      }
+      return urls;
+    } catch {
+      return [];
+    }
+  }
+
+  private extractFromJson(json: any): string | undefined {
+    try {
+      const root = Array.isArray(json) ? (json[0]?.data?.children?.[0]?.data ?? {}) : json?.data?.children?.[0]?.data ?? json;
+      const cp = (root.crosspost_parent_list && root.crosspost_parent_list[0]) || {};
+      // Prefer Redgifs from oEmbed html if present (often contains sound-ready media)
+      const oembedHtml: string | undefined = root.secure_media?.oembed?.html || cp.secure_media?.oembed?.html;
+      if (oembedHtml && /redgifs\.com/i.test(oembedHtml)) {
+        const m = oembedHtml.match(/src=["']([^"']+redgifs\.com[^"']+)["']/i) || oembedHtml.match(/href=["']([^"']+redgifs\.com[^"']+)["']/i);
+        const embed = m?.[1];
+        if (embed) return embed;
+      }
+      const rv = root.secure_media?.reddit_video?.fallback_url || root.preview?.reddit_video_preview?.fallback_url || cp.secure_media?.reddit_video?.fallback_url || cp.preview?.reddit_video_preview?.fallback_url;
+      if (rv && typeof rv === 'string') return rv;
+      const overridden = root.url_overridden_by_dest || root.url;
+      if (typeof overridden === 'string' && overridden) return overridden;
+      // Image preview
+      const img = root.preview?.images?.[0]?.source?.url;
+      if (img && typeof img === 'string') return img.replace(/&amp;/g, '&');
+      // oEmbed thumbnail (may be image)
+      const thumb = root.secure_media?.oembed?.thumbnail_url || cp.secure_media?.oembed?.thumbnail_url;
+      if (thumb && typeof thumb === 'string') return String(thumb);
+    } catch {}
+    return undefined;
+  }
+
+  private async resolveNested(url: string, context: ResolveContext): Promise<string> {
+    const [first] = await context.resolve(url);
+    return first?.url ?? url;
+  }
+
+  // Galleries come back as a list; everything else is a single URL
+  private async resolveUrl(rawUrl: string, context: ResolveContext): Promise<string | string[]> {
+    try {
+      // Normalize and follow redirects for share links
+      let workingUrl = rawUrl;
+      try {
+        const u0 = new URL(rawUrl);
+        if (u0.hostname.toLowerCase() === 'redd.it' && u0.pathname.length > 1) {
+          const id = u0.pathname.replace(/\//g, '');
+          workingUrl = `https://www.reddit.com/comments/${id}`;
+        }
+        // Strip tracking query params for reddit links (share_id, utm_*) as they can break resolution
+        if (u0.hostname.toLowerCase().includes('reddit.com')) {
+          const clean = new URL(rawUrl);
+          clean.search = '';
+          clean.hash = '';
+          workingUrl = clean.toString();
+        }
+      } catch {}
+
+      // Fetch page to capture canonical URL or final redirected URL (for /s/ share links)
+      const pageResp = await this.http.get(workingUrl, {
+        timeout: 8000,
+        headers: { 'User-Agent': 'Mozilla/5.0', 'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8' },
+        maxRedirects: 10,
+        validateStatus: (s) => !!s && s < 500,
+      });
+      const finalHtml = String(pageResp.data || '');
+      const findMeta = (pattern: RegExp) => { const m = finalHtml.match(pattern); return (m && m[1]) ? m[1] : undefined; };
+      const redirectedUrl: string | undefined = (pageResp as any)?.request?.res?.responseUrl || (pageResp as any)?.request?.responseURL;
+      let canonical = findMeta(/<link[^>]+rel=["']canonical["'][^>]+href=["']([^"']+)["'][^>]*>/i) || findMeta(/property=["']og:url["']\s+content=["']([^"']+)["']/i) || redirectedUrl;
+      // Clean canonical by removing query/hash
+      if (canonical) {
+        try { const c = new URL(canonical); c.search = ''; c.hash = ''; canonical = c.toString(); } catch {}
+      }
+
+      // Try JSON API for post metadata
+      let postJsonUrl: string | undefined;
+      try {
+        if (canonical) {
+          const base = canonical.endsWith('/') ? canonical.slice(0, -1) : canonical;
+          postJsonUrl = `${base}.json?raw_json=1`;
+        } else {
+          const u = new URL(workingUrl);
+          // Ensure no query/hash when deriving id
+          u.search = '';
+          u.hash = '';
+          const parts = u.pathname.split('/').filter(Boolean);
+          // /r/<sub>/comments/<id>/...
+          const idx = parts.findIndex(p => p === 'comments');
+          if (idx >= 0 && parts.length > idx + 1) {
+            const id = parts[idx + 1];
+            postJsonUrl = `https://www.reddit.com/comments/${id}.json?raw_json=1`;
+          }
+        }
+      } catch {}
+
+      if (postJsonUrl) {
+        // TODO: Migrate to OAuth-based Reddit API and add robust rate-limit handling.
+        // The .json endpoint is undocumented and may be rate limited or change behavior.
+        // Implement retry/backoff, caching, and fallbacks to HTML/OG tags when the JSON call fails.
+        // Try multiple hosts for JSON to reduce transient failures
+        const jsonCandidates: string[] = [];
+        try {
+          const urlObj = new URL(postJsonUrl);
+          const path = urlObj.pathname + (urlObj.search || '');
+          jsonCandidates.push(postJsonUrl);
+          jsonCandidates.push(`https://api.reddit.com${path.replace(/\.json$/, '')}`);
+          jsonCandidates.push(`https://old.reddit.com${urlObj.pathname}.json?raw_json=1`);
+        } catch { jsonCandidates.push(postJsonUrl); }
+        for (const endpoint of jsonCandidates) {
+          try {
+            const j = await this.http.get(endpoint, { timeout: 8000, headers: { 'User-Agent': 'Mozilla/5.0', 'Accept': 'application/json' } });
+            const gallery = this.extractGalleryFromJson(j.data);
+            if (gallery.length > 0) return gallery;
+            let mediaUrl = this.extractFromJson(j.data);
+            if (mediaUrl) {
+              // Normalize redgifs URLs by stripping embed params to prefer direct media with audio
+              try {
+                const mu = new URL(mediaUrl);
+                if (mu.hostname.endsWith('redgifs.com')) { mu.search = ''; mu.hash = ''; mediaUrl = mu.toString(); }
+              } catch {}
+              try {
+                const v = new URL(mediaUrl);
+                const host = v.hostname.toLowerCase();
+                if (host === 'v.redd.it') {
+                  const id = v.pathname.split('/').filter(Boolean)[0] || '';
+                  if (id) return await this.ensureDirectFromVReddit(id);
+                }
+              } catch {}
+              if (mediaUrl.endsWith('.gifv')) return mediaUrl.replace(/\.gifv$/i, '.mp4');
+              // Prefer non-silent variants for Redgifs direct links
+              try {
+                const u = new URL(mediaUrl);
+                if (u.hostname.endsWith('redgifs.com')) {
+                  const nonSilent = mediaUrl.replace(/-silent(\.[a-z0-9]+)$/i, '$1');
+                  if (nonSilent !== mediaUrl) {
+                    try {
+                      const head = await this.http.head(nonSilent, { timeout: 4000, headers: { 'User-Agent': 'Mozilla/5.0' } });
+                      if (head.status >= 200 && head.status < 400) return nonSilent;
+                    } catch {}
+                  }
+                }
+              } catch {}
+              try { return await this.resolveNested(mediaUrl, context); } catch { return mediaUrl; }
+            }
+          } catch {}
+        }
+      }
+
+      // Fallbacks: i.redd.it or v.redd.it direct inference
+      try {
+        const u = new URL(canonical || workingUrl);
+        const host = u.hostname.toLowerCase();
+        const parts = u.pathname.split('/').filter(Boolean);
+        if (host === 'i.redd.it') return u.toString();
+        if (host === 'v.redd.it' && parts.length > 0) {
+          return await this.ensureDirectFromVReddit(parts[0]);
+        }
+      } catch {}
+
+      // As a last HTML fallback, try og:video/og:image
+      const ogVideo = findMeta(/property=["']og:video["']\s+content=["']([^"']+)["']/i) || findMeta(/content=["']([^"']+)["']\s+property=["']og:video["']/i) || findMeta(/property=["']og:video:secure_url["']\s+content=["']([^"']+)["']/i);
+      if (ogVideo) {
+        try {
+          const vu = new URL(ogVideo);
+          const host = vu.hostname.toLowerCase();
+          if (host === 'v.redd.it') {
+            return await this.ensureDirectFromVReddit(vu.pathname.split('/').filter(Boolean)[0] || '');
+          }
+          // For non-Reddit hosts (e.g., Redgifs), resolve to direct media (prefer audio-capable variants)
+          try { return await this.resolveNested(vu.toString(), context); } catch { return ogVideo; }
+        } catch {}
+        return ogVideo;
+      }
+
+      // Fallback: search for Redgifs embeds in HTML and resolve
+      const redgifsEmbeds = [
+        (finalHtml.match(/<iframe[^>]+src=["']([^"']+redgifs\.com[^"']+)["'][^>]*>/i) || [])[1],
+        (finalHtml.match(/<source[^>]+src=["']([^"']+redgifs\.com[^"']+)["'][^>]*>/i) || [])[1],
+        (finalHtml.match(/<a[^>]+href=["']([^"']+redgifs\.com[^"']+)["'][^>]*>/i) || [])[1],
+      ];
+      for (const embed of redgifsEmbeds) {
+        if (!embed) continue;
+        try {
+          const cleaned = embed.replace(/-silent(\.[a-z0-9]+)$/i, '$1');
+          return await this.resolveNested(cleaned, context);
+        } catch {}
+      }
+      const ogImage = findMeta(/property=["']og:image["']\s+content=["']([^"']+)["']/i) || findMeta(/content=["']([^"']+)["']\s+property=["']og:image["']/i) || findMeta(/name=["']twitter:image["']\s+content=["']([^"']+)["']/i) || findMeta(/content=["']([^"']+)["']\s+name=["']twitter:image["']/i);
+      if (ogImage) return ogImage;
+      return rawUrl;
+    } catch (e) {
+      return rawUrl;
+    }
+  }
+}
@@ -0,0 +1,185 @@
+import { Injectable } from '@nestjs/common';
+import { MediaResolver, ResolvedMedia, hostMatches } from './media-resolver';
+import { ResolverHttpClient } from './resolver-http.client';
+
+const MAX_MS = 8000; // overall deadline
+const HEAD_TIMEOUT = 2000;
+const AUTH_TIMEOUT = 2000;
+const META_TIMEOUT = 3000;
+const HTML_TIMEOUT = 2000;
+
+const withTimeout = async <T>(p: Promise<T>, ms: number, label: string): Promise<T> => {
+  let to: NodeJS.Timeout;
+  return await Promise.race([
+    p.finally(() => clearTimeout(to)),
+    new Promise<T>((_, reject) => { to = setTimeout(() => reject(new Error(`${label} timeout after ${ms}ms`)), ms as any); }),
+  ]);
+};
+
+@Injectable()
+export class RedgifsResolver implements MediaResolver {
+  readonly name = 'redgifs';
+  readonly priority = 100;
+
+  constructor(private readonly http: ResolverHttpClient) {}
+
+  canHandle(url: string): boolean {
+    return hostMatches(url, 'redgifs.com');
+  }
+
+  async resolve(url: string): Promise<ResolvedMedia[]> {
+    // Normalize redgifs embed/watch/ifr URLs by stripping query params; prefer non-silent direct media
+    try {
+      const u = new URL(url);
+      u.search = '';
+      u.hash = '';
+      url = await this.preferNonSilent(u.toString(), 4000);
+    } catch {}
+    return [{ url: await this.resolveDirect(url) }];
+  }
+
+  // media.redgifs.com/<Id>-silent.mp4 has a sibling with audio at <Id>.mp4 for most clips
+  private async preferNonSilent(candidate: string, timeout: number): Promise<string> {
+    try {
+      const u = new URL(candidate);
+      if (u.hostname.toLowerCase() !== 'media.redgifs.com' || !/-silent\.mp4$/i.test(u.pathname)) return candidate;
+      const nonSilent = candidate.replace(/-silent(\.mp4)$/i, '$1');
+      const head = await withTimeout(
+        this.http.head(nonSilent, { timeout, headers: { 'User-Agent': 'Mozilla/5.0', Referer: 'https://www.redgifs.com/' } }),
+        timeout + 200,
+        'head nonSilent',
+      );
+      if (head.status >= 200 && head.status < 400) return nonSilent;
+    } catch {}
+    return candidate;
+  }
+
+  private async resolveDirect(rawUrl: string): Promise<string> {
+    const startedAt = Date.now();
+    const log = (...args: any[]) => console.log('[redgifs]', ...args);
+
+    const headOk = async (url: string): Promise<string> => {
+      const resp = await withTimeout(
+        this.http.head(url, { timeout: HEAD_TIMEOUT, headers: { 'User-Agent': 'Mozilla/5.0', Referer: 'https://www.redgifs.com/' } }),
+        HEAD_TIMEOUT + 200,
+        `HEAD ${url}`,
+      );
+      if (resp.status >= 200 && resp.status < 300) return url;
+      throw new Error(`HEAD status ${resp.status}`);
+    };
+
+    try {
+      const u = new URL(rawUrl);
+      const parts = u.pathname.split('/').filter(Boolean);
+      // support /watch/<id>, /ifr/<id>, /<id>
+      const idRaw = parts[1] || parts[0] || '';
+      if (!idRaw) throw new Error('Could not extract Redgifs ID');
+      const id = idRaw.replace(/[^a-zA-Z0-9]/g, '');
+      log('resolve start', { id, host: u.hostname });
+
+      // Prepare candidates for direct media
+      const pascal = id
+        .replace(/[-_]+/g, ' ')
+        .replace(/(^|\s)([a-zA-Z])/g, (_, s, c) => s + c.toUpperCase())
+        .replace(/\s+/g, '');
+      const candidates = [
+        `https://media.redgifs.com/${pascal}-mobile.mp4`,
+        `https://media.redgifs.com/${pascal}.mp4`,
+        `https://thumbs2.redgifs.com/${pascal}-mobile.mp4`,
+      ];
+
+      // Strategy A: Redgifs API
+      const apiPromise = (async () => {
+        try {
+          const auth = await withTimeout(
+            this.http.get('https://api.redgifs.com/v2/auth/temporary', { timeout: AUTH_TIMEOUT, headers: { 'User-Agent': 'Mozilla/5.0' } }),
+            AUTH_TIMEOUT + 200,
+            'auth',
+          );
+          const token = (auth.data && (auth.data.token || auth.data?.accessToken)) || undefined;
+          log('auth ok', { elapsedMs: Date.now() - startedAt });
+          if (token) {
+            const meta = await withTimeout(
+              this.http.get(`https://api.redgifs.com/v2/gifs/${id}`, {
+                timeout: META_TIMEOUT,
+                headers: { Authorization: `Bearer ${token}`, 'User-Agent': 'Mozilla/5.0' },
+              }),
+              META_TIMEOUT + 200,
+              'meta',
+            );
+            const urls = meta.data?.gif?.urls || {};
+            const direct: string | undefined = urls.hd || urls.sd || urls.gif || urls.max1mbGif || urls.thumbnail;
+            if (direct) {
+              log('api resolved', { elapsedMs: Date.now() - startedAt, direct });
+              return direct;
+            }
+          }
+          throw new Error('no direct via api');
+        } catch (e) {
+          log('api failed', (e as any)?.message || e);
+          throw e;
+        }
+      })();
+
+      // Strategy B: Concurrent HEAD to common patterns
+      const headPromise = (async () => {
+        const probes = candidates.map((c) => headOk(c));
+        // first to succeed
+        // Promise.any not in older runtimes; emulate
+        return await new Promise<string>((resolve, reject) => {
+          let rejections = 0;
+          for (const p of probes) {
+            p.then((url) => { log('head resolved', { url, elapsedMs: Date.now() - startedAt }); resolve(url); })
+             .catch(() => { if (++rejections === probes.length) reject(new Error('all HEAD failed')); });
+          }
+        });
+      })();
+
+      // Strategy C: Scrape HTML for og:video
+      const htmlPromise = (async () => {
+        try {
+          const htmlResp = await withTimeout(
+            this.http.get(rawUrl, { timeout: HTML_TIMEOUT, headers: { 'User-Agent': 'Mozilla/5.0' } }),
+            HTML_TIMEOUT + 200,
+            'html',
+          );
+          const html = String(htmlResp.data || '');
+          const m = html.match(/property=["']og:video["']\s+content=["']([^"']+)["']/i) || html.match(/content=["']([^"']+)["']\s+property=["']og:video["']/i);
+          const direct = m?.[1];
+          if (direct) {
+            log('html resolved', { direct, elapsedMs: Date.now() - startedAt });
+            return direct;
+          }
+          throw new Error('no og:video');
+        } catch (e) {
+          log('html failed', (e as any)?.message || e);
+          throw e;
+        }
+      })();
+
+      // Race strategies with overall deadline
+      // Wrap to tag the winner type; enforce overall deadline via withTimeout
+      const taggedApi = apiPromise.then((u) => ({ type: 'api' as const, url: u }));
+      const taggedHead = headPromise.then((u) => ({ type: 'head' as const, url: u }));
+      const taggedHtml = htmlPromise.then((u) => ({ type: 'html' as const, url: u }));
+      const firstTagged = await withTimeout(Promise.any([taggedApi, taggedHead, taggedHtml]), MAX_MS, 'overall');
+      let candidate = firstTagged.url;
+      // If API wasn't the winner, allow a short grace for API to arrive and override candidate
+      if (firstTagged.type !== 'api') {
+        try {
+          const apiGrace = await withTimeout(apiPromise, 700, 'apiGrace');
+          if (apiGrace) {
+            candidate = apiGrace;
+          }
+        } catch {}
+      }
+      // Prefer non-silent direct media if candidate is a Redgifs silent URL
+      candidate = await this.preferNonSilent(candidate, HEAD_TIMEOUT);
+      log('resolved success', { result: candidate, totalMs: Date.now() - startedAt });
+      return candidate;
+    } catch (err) {
+      log('resolve failed, falling back to original', (err as any)?.message || err, { totalMs: Date.now() - startedAt });
+      return rawUrl;
+    }
+  }
+}
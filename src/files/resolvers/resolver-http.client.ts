@@ -0,0 +1,14 @@
+import { Injectable } from '@nestjs/common';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+// Thin wrapper so resolvers can be exercised against recorded fixtures instead of the network
+@Injectable()
+export class ResolverHttpClient {
+  get(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse> {
+    return axios.get(url, config);
+  }
+
+  head(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse> {
+    return axios.head(url, config);
+  }
+}
@@ -0,0 +1,93 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { HttpException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { ResumableUploadService } from './resumable-upload.service';
+import { ResumableUploadEntity } from './entities/resumable-upload.entity';
+import { FilesService } from './files.service';
+
+// Just enough of a TypeORM repository to keep rows in memory
+class MemoryRepository {
+  rows = new Map<string, ResumableUploadEntity>();
+  private seq = 0;
+  create(data: Partial<ResumableUploadEntity>) { return { ...data } as ResumableUploadEntity; }
+  async save(row: ResumableUploadEntity) {
+    const saved = { ...row, id: row.id ?? `00000000-0000-0000-0000-${String(++this.seq).padStart(12, '0')}`, updatedAt: new Date() };
+    this.rows.set(saved.id, saved);
+    return saved;
+  }
+  async findOne({ where }: any) {
+    const row = this.rows.get(where.id);
+    return row && row.ownerId === where.ownerId ? { ...row } : null;
+  }
+  async find() { return []; }
+  async update(id: string, patch: Partial<ResumableUploadEntity>) { Object.assign(this.rows.get(id)!, patch); }
+  async delete(id: string) { this.rows.delete(id); }
+}
+
+describe('ResumableUploadService', () => {
+  const owner = '11111111-1111-1111-1111-111111111111';
+  let service: ResumableUploadService;
+  let repo: MemoryRepository;
+  let uploadFile: jest.Mock;
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'resumable-'));
+    jest.spyOn(process, 'cwd').mockReturnValue(workDir);
+    repo = new MemoryRepository();
+    uploadFile = jest.fn(async (file: Express.Multer.File) => ({ file: { id: 'file-1', size: fs.statSync(file.path).size } }));
+    const module = await Test.createTestingModule({
+      providers: [
+        ResumableUploadService,
+        { provide: getRepositoryToken(ResumableUploadEntity), useValue: repo },
+        { provide: FilesService, useValue: { uploadFile } },
+      ],
+    }).compile();
+    service = module.get(ResumableUploadService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('appends chunks at the current offset and hands the finished file to uploadFile', async () => {
+    const created = await service.create(owner, { length: 10, filename: 'clip.mp4', mimeType: 'video/mp4', tags: ['a'], title: 'Clip' });
+    expect(created).toEqual({ id: created.id, offset: 0, length: 10 });
+
+    const first = await service.appendChunk(created.id, owner, 0, Readable.from([Buffer.from('hello')]));
+    expect(first).toEqual({ status: { id: created.id, offset: 5, length: 10 } });
+    await expect(service.appendChunk(created.id, owner, 0, Readable.from([Buffer.from('again')]))).rejects.toMatchObject({ status: 409 });
+
+    const last = await service.appendChunk(created.id, owner, 5, Readable.from([Buffer.from('world')]));
+    expect(last.status.offset).toBe(10);
+    expect(last.result?.file.id).toBe('file-1');
+    const [file, ownerId, sourceUrl, tags, title] = uploadFile.mock.calls[0];
+    expect(fs.readFileSync(file.path, 'utf8')).toBe('helloworld');
+    expect({ name: file.originalname, ownerId, sourceUrl, tags, title }).toEqual({ name: 'clip.mp4', ownerId: owner, sourceUrl: undefined, tags: ['a'], title: 'Clip' });
+    expect(repo.rows.size).toBe(0);
+  });
+
+  it('keeps the bytes of an interrupted chunk so the client can resume after them', async () => {
+    const { id } = await service.create(owner, { length: 8, filename: 'a.bin' });
+    const dropped = new Readable({ read() {} });
+    const pending = service.appendChunk(id, owner, 0, dropped);
+    dropped.push(Buffer.from('abc'));
+    // Drop the connection only once the bytes have reached the part file
+    const partFile = path.join(workDir, 'temp', 'resumable', id);
+    while (fs.statSync(partFile).size < 3) await new Promise((r) => setTimeout(r, 5));
+    dropped.destroy(new Error('socket hang up'));
+    await expect(pending).rejects.toBeInstanceOf(HttpException);
+    expect(await service.getStatus(id, owner)).toEqual({ id, offset: 3, length: 8 });
+  });
+
+  it('rejects chunks that overrun the declared length', async () => {
+    const { id } = await service.create(owner, { length: 4, filename: 'a.bin' });
+    await expect(service.appendChunk(id, owner, 0, Readable.from([Buffer.from('toolong')]))).rejects.toMatchObject({ status: 413 });
+    expect(uploadFile).not.toHaveBeenCalled();
+  });
+});
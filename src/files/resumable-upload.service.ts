@@ -0,0 +1,144 @@
+import { Injectable, HttpException, HttpStatus, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ResumableUploadEntity } from './entities/resumable-upload.entity';
+import { FilesService, FileRecord } from './files.service';
+
+export interface ResumableUploadStatus {
+  id: string;
+  offset: number;
+  length: number;
+}
+
+@Injectable()
+export class ResumableUploadService implements OnApplicationBootstrap {
+  private static readonly MAX_UPLOAD_BYTES = 5 * 1024 * 1024 * 1024;
+  // Uploads nobody has touched for this long are abandoned
+  private static readonly STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+  // One PATCH at a time per upload, otherwise two clients could interleave bytes
+  private readonly locked = new Set<string>();
+
+  constructor(
+    @InjectRepository(ResumableUploadEntity)
+    private readonly uploadRepository: Repository<ResumableUploadEntity>,
+    private readonly filesService: FilesService,
+  ) {}
+
+  onApplicationBootstrap() {
+    this.purgeStaleUploads().catch((e) => console.error('[uploads] stale upload cleanup failed', (e as any)?.message || e));
+  }
+
+  private partPath(id: string): string {
+    return path.join(process.cwd(), 'temp', 'resumable', id);
+  }
+
+  async create(ownerId: string, input: { length: number; filename?: string; mimeType?: string; tags?: string[]; title?: string | null }): Promise<ResumableUploadStatus> {
+    const length = Number(input.length);
+    if (!Number.isSafeInteger(length) || length <= 0) throw new HttpException('Upload-Length must be a positive integer', HttpStatus.BAD_REQUEST);
+    if (length > ResumableUploadService.MAX_UPLOAD_BYTES) throw new HttpException('File is too large', HttpStatus.PAYLOAD_TOO_LARGE);
+    this.purgeStaleUploads(ownerId).catch((e) => console.error('[uploads] stale upload cleanup failed', (e as any)?.message || e));
+
+    const upload = await this.uploadRepository.save(this.uploadRepository.create({
+      ownerId,
+      length,
+      offset: 0,
+      originalName: path.basename(input.filename?.trim() || 'upload.bin'),
+      mimeType: input.mimeType || null,
+      tags: input.tags ?? null,
+      title: input.title?.trim() || null,
+    }));
+    fs.mkdirSync(path.dirname(this.partPath(upload.id)), { recursive: true });
+    fs.writeFileSync(this.partPath(upload.id), Buffer.alloc(0));
+    return this.toStatus(upload);
+  }
+
+  async getStatus(id: string, ownerId: string): Promise<ResumableUploadStatus> {
+    return this.toStatus(await this.findOwned(id, ownerId));
+  }
+
+  // Appends one chunk; when the last byte arrives the file goes through the regular upload pipeline
+  async appendChunk(id: string, ownerId: string, offset: number, body: Readable): Promise<{ status: ResumableUploadStatus; result?: { file: FileRecord; match?: { id: string; sourceUrl?: string } } }> {
+    const upload = await this.findOwned(id, ownerId);
+    if (this.locked.has(id)) throw new HttpException('Another request is already writing to this upload', HttpStatus.CONFLICT);
+    if (!Number.isSafeInteger(offset) || offset !== Number(upload.offset)) {
+      throw new HttpException(`Upload-Offset ${offset} does not match the current offset ${upload.offset}`, HttpStatus.CONFLICT);
+    }
+    const length = Number(upload.length);
+    const partPath = this.partPath(id);
+    this.locked.add(id);
+    try {
+      let received = 0;
+      const remaining = length - offset;
+      const limiter = new Transform({
+        transform(chunk: Buffer, _enc, cb) {
+          received += chunk.length;
+          if (received > remaining) return cb(new HttpException('Chunk exceeds the declared Upload-Length', HttpStatus.PAYLOAD_TOO_LARGE));
+          cb(null, chunk);
+        },
+      });
+      let failure: unknown;
+      try {
+        await pipeline(body, limiter, fs.createWriteStream(partPath, { flags: 'a' }));
+      } catch (e) {
+        failure = e;
+      }
+      // Whatever made it to disk counts, even when the connection dropped part-way through
+      const written = fs.existsSync(partPath) ? fs.statSync(partPath).size : 0;
+      const newOffset = Math.min(written, length);
+      if (written > length) fs.truncateSync(partPath, length);
+      upload.offset = newOffset;
+      await this.uploadRepository.update(id, { offset: newOffset });
+      if (failure && newOffset < length) {
+        if (failure instanceof HttpException) throw failure;
+        throw new HttpException('Chunk transfer interrupted', HttpStatus.BAD_REQUEST);
+      }
+      if (newOffset < length) return { status: this.toStatus(upload) };
+      return { status: this.toStatus(upload), result: await this.finish(upload) };
+    } finally {
+      this.locked.delete(id);
+    }
+  }
+
+  async terminate(id: string, ownerId: string): Promise<void> {
+    const upload = await this.findOwned(id, ownerId);
+    if (this.locked.has(id)) throw new HttpException('Upload is being written to', HttpStatus.CONFLICT);
+    await this.discard(upload);
+  }
+
+  private async finish(upload: ResumableUploadEntity): Promise<{ file: FileRecord; match?: { id: string; sourceUrl?: string } }> {
+    const partPath = this.partPath(upload.id);
+    // uploadFile takes ownership of the part file and removes it once processing is done
+    await this.uploadRepository.delete(upload.id);
+    const file: Express.Multer.File = { fieldname: 'file', originalname: upload.originalName, encoding: '7bit', mimetype: upload.mimeType || 'application/octet-stream', size: Number(upload.length), destination: path.dirname(partPath), filename: upload.id, path: partPath, buffer: Buffer.alloc(0), stream: null as any };
+    return await this.filesService.uploadFile(file, upload.ownerId, undefined, upload.tags ?? undefined, upload.title);
+  }
+
+  private async findOwned(id: string, ownerId: string): Promise<ResumableUploadEntity> {
+    const upload = await this.uploadRepository.findOne({ where: { id, ownerId } });
+    if (!upload) throw new HttpException('Upload not found', HttpStatus.NOT_FOUND);
+    return upload;
+  }
+
+  private async discard(upload: ResumableUploadEntity): Promise<void> {
+    try { fs.unlinkSync(this.partPath(upload.id)); } catch {}
+    await this.uploadRepository.delete(upload.id);
+  }
+
+  private async purgeStaleUploads(ownerId?: string): Promise<void> {
+    const cutoff = new Date(Date.now() - ResumableUploadService.STALE_AFTER_MS);
+    const stale = await this.uploadRepository.find({ where: { updatedAt: LessThan(cutoff), ...(ownerId ? { ownerId } : {}) } });
+    for (const upload of stale) {
+      if (!this.locked.has(upload.id)) await this.discard(upload);
+    }
+  }
+
+  private toStatus(upload: ResumableUploadEntity): ResumableUploadStatus {
+    // bigint columns come back from pg as strings
+    return { id: upload.id, offset: Number(upload.offset) || 0, length: Number(upload.length) || 0 };
+  }
+}
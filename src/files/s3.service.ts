@@ -1,12 +1,15 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, PutObjectCommand, DeleteObjectCommand, DeleteObjectsCommand, GetObjectCommand, ListObjectsV2Command, HeadObjectCommand, CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommand, AbortMultipartUploadCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import * as fs from 'fs';
+import { pipeline } from 'stream/promises';
 import { Upload } from '@aws-sdk/lib-storage';
+import { ByteRange, StorageObject, StorageProvider } from './storage/storage-provider';
 
 @Injectable()
-export class S3Service {
+export class S3Service implements StorageProvider {
+  readonly name = 's3';
   private s3Client: S3Client;
   private bucketName: string;
 
@@ -21,8 +24,9 @@ export class S3Service {
     });
   }
 
-  async uploadFile(filePath: string, key: string, contentType: string, onProgress?: (uploadedBytes: number) => void): Promise<string> {
+  async uploadFile(filePath: string, key: string, contentType: string, onProgress?: (uploadedBytes: number) => void, signal?: AbortSignal): Promise<string> {
     try {
+      signal?.throwIfAborted();
       const fileStream = fs.createReadStream(filePath);
       let uploaded = 0;
       const uploader = new Upload({
@@ -35,7 +39,14 @@ export class S3Service {
         },
       });
       uploader.on('httpUploadProgress', (p) => { if (typeof p.loaded === 'number') { uploaded = p.loaded; onProgress && onProgress(uploaded); } });
-      await uploader.done();
+      // Aborting also tells S3 to drop any multipart parts already uploaded
+      const onAbort = () => { void uploader.abort(); };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      try {
+        await uploader.done();
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+      }
       return await this.getSignedUrl(key, 3600);
     } catch (error) {
       console.error('Error uploading file to S3:', error);
@@ -43,9 +54,58 @@ export class S3Service {
     }
   }
 
-  async getObjectStream(key: string): Promise<{ body: any; contentType?: string; contentLength?: number }> {
-    const resp = await this.s3Client.send(new GetObjectCommand({ Bucket: this.bucketName, Key: key }));
-    return { body: resp.Body as any, contentType: resp.ContentType, contentLength: resp.ContentLength };
+  async getObjectStream(key: string, range?: ByteRange): Promise<StorageObject> {
+    const resp = await this.s3Client.send(new GetObjectCommand({ Bucket: this.bucketName, Key: key, ...(range ? { Range: `bytes=${range.start}-${range.end}` } : {}) }));
+    // ContentRange looks like "bytes 0-99/1234"
+    const total = resp.ContentRange ? Number(resp.ContentRange.split('/')[1]) : resp.ContentLength;
+    return { body: resp.Body as any, contentType: resp.ContentType, contentLength: resp.ContentLength, totalLength: Number.isFinite(total) ? total : undefined };
+  }
+
+  async downloadToFile(key: string, filePath: string): Promise<void> {
+    const { body } = await this.getObjectStream(key);
+    await pipeline(body, fs.createWriteStream(filePath));
+  }
+
+  // Null when the object does not exist (yet)
+  async headObject(key: string): Promise<{ contentLength: number; contentType?: string } | null> {
+    try {
+      const resp = await this.s3Client.send(new HeadObjectCommand({ Bucket: this.bucketName, Key: key }));
+      return { contentLength: resp.ContentLength ?? 0, contentType: resp.ContentType };
+    } catch (error) {
+      if (error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) return null;
+      throw error;
+    }
+  }
+
+  // Lets clients PUT straight to the bucket without the bytes passing through the API
+  async getPresignedPutUrl(key: string, contentType: string, expiresIn: number = 3600): Promise<string> {
+    const command = new PutObjectCommand({ Bucket: this.bucketName, Key: key, ContentType: contentType });
+    return await getSignedUrl(this.s3Client, command, { expiresIn });
+  }
+
+  async createMultipartUpload(key: string, contentType: string): Promise<string> {
+    const resp = await this.s3Client.send(new CreateMultipartUploadCommand({ Bucket: this.bucketName, Key: key, ContentType: contentType }));
+    if (!resp.UploadId) throw new Error('S3 did not return a multipart upload id');
+    return resp.UploadId;
+  }
+
+  async getPresignedPartUrl(key: string, uploadId: string, partNumber: number, expiresIn: number = 3600): Promise<string> {
+    const command = new UploadPartCommand({ Bucket: this.bucketName, Key: key, UploadId: uploadId, PartNumber: partNumber });
+    return await getSignedUrl(this.s3Client, command, { expiresIn });
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: Array<{ partNumber: number; etag: string }>): Promise<void> {
+    const sorted = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    await this.s3Client.send(new CompleteMultipartUploadCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: { Parts: sorted.map((p) => ({ PartNumber: p.partNumber, ETag: p.etag })) },
+    }));
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.s3Client.send(new AbortMultipartUploadCommand({ Bucket: this.bucketName, Key: key, UploadId: uploadId }));
   }
 
   async deleteFile(key: string): Promise<void> {
@@ -58,6 +118,42 @@ export class S3Service {
     }
   }
 
+  async listObjects(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let token: string | undefined;
+    do {
+      const resp = await this.s3Client.send(new ListObjectsV2Command({ Bucket: this.bucketName, Prefix: prefix, ContinuationToken: token }));
+      for (const object of resp.Contents || []) if (object.Key) keys.push(object.Key);
+      token = resp.IsTruncated ? resp.NextContinuationToken : undefined;
+    } while (token);
+    return keys;
+  }
+
+  // DeleteObjects takes up to 1000 keys per request; failures are reported per key instead of thrown
+  async deleteObjects(keys: string[]): Promise<{ deleted: string[]; errors: Array<{ key: string; message: string }> }> {
+    const deleted: string[] = [];
+    const errors: Array<{ key: string; message: string }> = [];
+    const unique = [...new Set(keys)];
+    for (let i = 0; i < unique.length; i += 1000) {
+      const batch = unique.slice(i, i + 1000);
+      try {
+        const resp = await this.s3Client.send(new DeleteObjectsCommand({
+          Bucket: this.bucketName,
+          Delete: { Objects: batch.map((Key) => ({ Key })), Quiet: true },
+        }));
+        const failed = new Map((resp.Errors || []).map((e) => [e.Key as string, e.Message || e.Code || 'Delete failed']));
+        for (const key of batch) {
+          if (failed.has(key)) errors.push({ key, message: failed.get(key)! });
+          else deleted.push(key);
+        }
+      } catch (error) {
+        console.error('Error deleting files from S3:', error);
+        for (const key of batch) errors.push({ key, message: (error as any)?.message || 'Delete failed' });
+      }
+    }
+    return { deleted, errors };
+  }
+
   async getSignedUrl(key: string, expiresIn: number = 3600, downloadName?: string): Promise<string> {
     try {
       const command = new GetObjectCommand({
@@ -71,8 +167,4 @@ export class S3Service {
       throw new Error(`Failed to generate signed URL: ${error.message}`);
     }
   }
-
-  async refreshSignedUrl(key: string, expiresIn: number = 3600, downloadName?: string): Promise<string> {
-    return await this.getSignedUrl(key, expiresIn, downloadName);
-  }
 }
@@ -0,0 +1,24 @@
+import { parseSearchQuery } from './search-query';
+
+describe('parseSearchQuery', () => {
+  it('prefix-matches bare words and matches quoted phrases in order', () => {
+    expect(parseSearchQuery('cat "Funny Dog" vid').tsquery).toBe(`'cat':* & ('funny' <-> 'dog') & 'vid':*`);
+  });
+
+  it('keeps words split by punctuation adjacent', () => {
+    expect(parseSearchQuery('my_clip-final').tsquery).toBe(`('my' <-> 'clip' <-> 'final':*)`);
+  });
+
+  it('pulls tag: and host: operators out as filters', () => {
+    expect(parseSearchQuery('tag:Memes tag:"cute cats" host:https://www.Reddit.com/r/x cat')).toEqual({
+      tsquery: `'cat':*`,
+      tags: ['memes', 'cute cats'],
+      hosts: ['reddit.com'],
+    });
+  });
+
+  it('drops characters that would break the tsquery syntax', () => {
+    expect(parseSearchQuery(`it's & | ! (x) :* '`)).toEqual({ tsquery: `('it' <-> 's':*) & 'x':*`, tags: [], hosts: [] });
+    expect(parseSearchQuery('host:bad_host').tsquery).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { normalizeTag } from '../tags';
+
+export interface ParsedSearchQuery {
+  // Input for to_tsquery('simple', ...); null when the query only has operators
+  tsquery: string | null;
+  tags: string[];
+  hosts: string[];
+}
+
+// Lexemes are runs of letters and digits, matching how the search vector is built from each column
+export function splitSearchWords(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// Bare words match as prefixes, "quoted phrases" match exactly and in order, tag:x and host:x become filters
+export function parseSearchQuery(q: string): ParsedSearchQuery {
+  const terms: string[] = [];
+  const tags: string[] = [];
+  const hosts: string[] = [];
+  const token = /(?:\b(tag|host):)?(?:"([^"]*)"|(\S+))/gi;
+  for (const match of q.matchAll(token)) {
+    const op = match[1]?.toLowerCase();
+    const quoted = match[2];
+    const value = quoted ?? match[3].replace(/"/g, '');
+    if (op === 'tag') {
+      const tag = normalizeTag(value);
+      if (tag) tags.push(tag);
+      continue;
+    }
+    if (op === 'host') {
+      const host = value.toLowerCase().replace(/^[a-z][a-z0-9+.-]*:\/\//, '').replace(/[/:?#].*$/, '').replace(/^www\./, '');
+      if (/^[a-z0-9.-]+$/.test(host)) hosts.push(host);
+      continue;
+    }
+    const words = splitSearchWords(value);
+    if (words.length === 0) continue;
+    const lexemes = words.map((w) => `'${w}'`);
+    // A bare token split by punctuation, like my-clip, is still matched as adjacent words
+    if (quoted === undefined) lexemes[lexemes.length - 1] += ':*';
+    terms.push(lexemes.length > 1 ? `(${lexemes.join(' <-> ')})` : lexemes[0]);
+  }
+  return { tsquery: terms.length ? terms.join(' & ') : null, tags, hosts };
+}
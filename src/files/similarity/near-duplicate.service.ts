@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { FileEntity } from '../entities/file.entity';
+import { ImageHashes, hexToBits } from './perceptual-hash';
+
+// reject: answer the upload with 409 like an exact duplicate; notify: keep it and tell the owner; off: don't look
+export type NearDuplicateMode = 'reject' | 'notify' | 'off';
+
+// Finds images in a user's library that are near-identical to a new upload by comparing perceptual hashes
+@Injectable()
+export class NearDuplicateService {
+  private static readonly DEFAULT_MAX_DISTANCE = 8;
+
+  constructor(
+    @InjectRepository(FileEntity)
+    private readonly fileRepository: Repository<FileEntity>,
+    private readonly config: ConfigService,
+  ) {}
+
+  // NEAR_DUPLICATE_IMAGES picks the mode, notify by default
+  get mode(): NearDuplicateMode {
+    const mode = this.config.get<string>('NEAR_DUPLICATE_IMAGES');
+    return mode === 'reject' || mode === 'off' ? mode : 'notify';
+  }
+
+  // NEAR_DUPLICATE_MAX_DISTANCE is how many of the 64 bits may differ
+  private get maxDistance(): number {
+    const configured = Number(this.config.get<string>('NEAR_DUPLICATE_MAX_DISTANCE'));
+    return Number.isInteger(configured) && configured >= 0 && configured < 64 ? configured : NearDuplicateService.DEFAULT_MAX_DISTANCE;
+  }
+
+  // The closest image whose hashes are both within the distance, compared in Postgres; distance is the pHash one
+  async findMatch(ownerId: string, hashes: ImageHashes): Promise<{ id: string; distance: number } | null> {
+    if (this.mode === 'off') return null;
+    const match = await this.fileRepository.createQueryBuilder('file')
+      .select('file.id', 'id')
+      .addSelect('bit_count(file.perceptualHash # CAST(:phash AS bit(64)))', 'distance')
+      .where('file.ownerId = :ownerId', { ownerId })
+      .andWhere('bit_count(file.perceptualHash # CAST(:phash AS bit(64))) <= :maxDistance')
+      .andWhere('bit_count(file.differenceHash # CAST(:dhash AS bit(64))) <= :maxDistance')
+      .setParameters({ phash: hexToBits(hashes.perceptualHash), dhash: hexToBits(hashes.differenceHash), maxDistance: this.maxDistance })
+      .orderBy('distance', 'ASC')
+      .limit(1)
+      .getRawOne<{ id: string; distance: string }>();
+    return match ? { id: match.id, distance: Number(match.distance) } : null;
+  }
+}
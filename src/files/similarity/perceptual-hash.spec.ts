@@ -0,0 +1,42 @@
+import sharp from 'sharp';
+import { computeImageHashes, hammingDistance, hexToBits, HASH_BITS_TRANSFORMER } from './perceptual-hash';
+
+// A 256x192 RGB image with a diagonal gradient and a dark block, or its mirror image
+function sampleImage(mirrored = false): Promise<Buffer> {
+  const width = 256, height = 192;
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sx = mirrored ? width - 1 - x : x;
+      const inBlock = sx > 40 && sx < 120 && y > 30 && y < 110;
+      const value = inBlock ? 20 : Math.round((sx + y) / 2);
+      pixels.fill(value, (y * width + x) * 3, (y * width + x) * 3 + 3);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
+
+describe('perceptual-hash', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+    expect(hammingDistance('ffff', 'ffff')).toBe(0);
+    expect(hammingDistance('ff', 'ffff')).toBe(Infinity);
+  });
+
+  it('round-trips hex hashes through their bit(64) form', () => {
+    expect(hexToBits('000000000000000f')).toBe(`${'0'.repeat(60)}1111`);
+    expect(HASH_BITS_TRANSFORMER.from(HASH_BITS_TRANSFORMER.to('00a1b2c3d4e5f607'))).toBe('00a1b2c3d4e5f607');
+    expect(HASH_BITS_TRANSFORMER.to(null)).toBeNull();
+  });
+
+  it('keeps resized re-encodes close and tells different images apart', async () => {
+    const original = await sampleImage();
+    const hashes = await computeImageHashes(original);
+    expect(hashes.perceptualHash).toMatch(/^[0-9a-f]{16}$/);
+    const reencoded = await computeImageHashes(await sharp(original).resize(128).jpeg({ quality: 60 }).toBuffer());
+    const mirrored = await computeImageHashes(await sampleImage(true));
+    expect(hammingDistance(hashes.perceptualHash, reencoded.perceptualHash)).toBeLessThanOrEqual(4);
+    expect(hammingDistance(hashes.differenceHash, reencoded.differenceHash)).toBeLessThanOrEqual(4);
+    expect(hammingDistance(hashes.perceptualHash, mirrored.perceptualHash)).toBeGreaterThan(8);
+  });
+});
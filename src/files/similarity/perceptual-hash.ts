@@ -0,0 +1,84 @@
+import sharp from 'sharp';
+import { ValueTransformer } from 'typeorm';
+
+export interface ImageHashes {
+  // 64-bit DCT hash as 16 hex digits; robust to re-encoding, resizing and small colour changes
+  perceptualHash: string;
+  // 64-bit gradient hash as 16 hex digits; cheap and catches what the pHash alone would call close
+  differenceHash: string;
+}
+
+const PHASH_SIZE = 32;
+const PHASH_BITS = 8;
+
+// Grayscale pixels squashed to exactly width x height. Auto-rotated so an EXIF-rotated copy hashes the same,
+// and flattened so transparent PNGs don't bring an alpha channel along. GIFs and other animations use their first frame
+async function grayscalePixels(input: string | Buffer, width: number, height: number): Promise<Buffer> {
+  return await sharp(input).rotate().flatten({ background: '#ffffff' }).resize(width, height, { fit: 'fill' }).grayscale().raw().toBuffer();
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((+bits[i] << 3) | (+bits[i + 1] << 2) | (+bits[i + 2] << 1) | +bits[i + 3]).toString(16);
+  }
+  return hex;
+}
+
+// pHash: the lowest 8x8 frequencies of a 32x32 DCT, each compared with their median (the DC term is left out)
+function perceptualHashOf(pixels: Buffer): string {
+  const cos: number[][] = [];
+  for (let u = 0; u < PHASH_BITS; u++) {
+    cos.push(Array.from({ length: PHASH_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * PHASH_SIZE))));
+  }
+  // Separable DCT, keeping only the coefficients the hash needs
+  const rows: number[][] = [];
+  for (let y = 0; y < PHASH_SIZE; y++) {
+    rows.push(cos.map((c) => c.reduce((sum, factor, x) => sum + pixels[y * PHASH_SIZE + x] * factor, 0)));
+  }
+  const coefficients: number[] = [];
+  for (let v = 0; v < PHASH_BITS; v++) {
+    for (let u = 0; u < PHASH_BITS; u++) {
+      coefficients.push(rows.reduce((sum, row, y) => sum + row[u] * cos[v][y], 0));
+    }
+  }
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  // 63 AC terms, so the median is the middle one
+  const median = sorted[Math.floor(sorted.length / 2)];
+  return bitsToHex(coefficients.map((c) => c > median));
+}
+
+// dHash: whether each pixel of a 9x8 thumbnail is brighter than its right-hand neighbour
+function differenceHashOf(pixels: Buffer): string {
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) bits.push(pixels[y * 9 + x] > pixels[y * 9 + x + 1]);
+  }
+  return bitsToHex(bits);
+}
+
+export async function computeImageHashes(input: string | Buffer): Promise<ImageHashes> {
+  const [large, small] = await Promise.all([grayscalePixels(input, PHASH_SIZE, PHASH_SIZE), grayscalePixels(input, 9, 8)]);
+  return { perceptualHash: perceptualHashOf(large), differenceHash: differenceHashOf(small) };
+}
+
+// Differing bits between two hex hashes; hashes of different lengths never match
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let x = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    for (; x; x &= x - 1) distance++;
+  }
+  return distance;
+}
+
+// 16 hex digits as the 64 binary digits Postgres takes for a bit(64) value
+export function hexToBits(hex: string): string {
+  return BigInt(`0x${hex}`).toString(2).padStart(64, '0');
+}
+
+export const HASH_BITS_TRANSFORMER: ValueTransformer = {
+  to: (value: unknown) => (typeof value === 'string' && value ? hexToBits(value) : value),
+  from: (value: unknown) => (typeof value === 'string' && value ? BigInt(`0b${value}`).toString(16).padStart(16, '0') : value),
+};
@@ -0,0 +1,38 @@
+import { ByteRange } from './storage-provider';
+
+// Resolves a single "bytes=" Range header against the object size. Null means serve the whole object (no
+// header, or a form we don't handle such as multiple ranges); 'unsatisfiable' means answer 416
+export function parseRangeHeader(header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec((header ?? '').trim());
+  if (!match || (!match[1] && !match[2])) return null;
+  if (!match[1]) {
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(size - suffix, 0), end: size - 1 };
+  }
+  const start = Number(match[1]);
+  // A backwards range is invalid rather than unsatisfiable, so it's ignored
+  if (match[2] && Number(match[2]) < start) return null;
+  if (start >= size) return 'unsatisfiable';
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return { start, end };
+}
+
+// If-Range holds either a strong ETag or an HTTP date; the range is only honoured when it still names the
+// current representation, otherwise the client gets the whole object
+export function ifRangeMatches(header: string | undefined, etag: string, lastModified: Date): boolean {
+  const value = (header ?? '').trim();
+  if (!value) return true;
+  if (value.startsWith('"') || value.startsWith('W/')) return value === etag;
+  const date = Date.parse(value);
+  return Number.isFinite(date) && date === Math.floor(lastModified.getTime() / 1000) * 1000;
+}
+
+// If-None-Match may list several tags, or "*"; weak and strong forms compare equal here
+export function etagMatches(header: string | undefined, etag: string): boolean {
+  const value = (header ?? '').trim();
+  if (!value) return false;
+  if (value === '*') return true;
+  const bare = (tag: string) => tag.trim().replace(/^W\//, '');
+  return value.split(',').some((tag) => bare(tag) === bare(etag));
+}
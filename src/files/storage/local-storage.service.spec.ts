@@ -0,0 +1,69 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { LocalStorageService } from './local-storage.service';
+import { parseRangeHeader, ifRangeMatches, etagMatches } from './http-range';
+
+describe('LocalStorageService', () => {
+  let root: string;
+  let storage: LocalStorageService;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-'));
+    const env: Record<string, string> = { LOCAL_STORAGE_DIR: root, STORAGE_PUBLIC_URL: 'http://api.test/', STORAGE_SIGNING_SECRET: 'secret' };
+    storage = new LocalStorageService({ get: (key: string) => env[key] } as unknown as ConfigService);
+  });
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  it('signs URLs that verify only for the same method, key and download name', async () => {
+    const url = new URL(await storage.getSignedUrl('thumbnails/a b.jpg', 60, 'clip.jpg'));
+    expect(url.origin + url.pathname).toBe('http://api.test/storage/thumbnails/a%20b.jpg');
+    const expires = url.searchParams.get('expires')!;
+    const signature = url.searchParams.get('signature')!;
+    expect(storage.verifySignature('GET', 'thumbnails/a b.jpg', expires, signature, 'clip.jpg')).toBe(true);
+    expect(storage.verifySignature('GET', 'thumbnails/a b.jpg', expires, signature)).toBe(false);
+    expect(storage.verifySignature('PUT', 'thumbnails/a b.jpg', expires, signature, 'clip.jpg')).toBe(false);
+    expect(storage.verifySignature('GET', 'thumbnails/other.jpg', expires, signature, 'clip.jpg')).toBe(false);
+    expect(storage.verifySignature('GET', 'thumbnails/a b.jpg', String(Math.floor(Date.now() / 1000) - 1), signature, 'clip.jpg')).toBe(false);
+  });
+
+  it('writes, ranges, heads and deletes objects under the root and refuses keys that escape it', async () => {
+    await storage.writeObject('mp4/x.mp4', Readable.from([Buffer.from('0123456789')]));
+    expect(await storage.headObject('mp4/x.mp4')).toEqual({ contentLength: 10, contentType: 'video/mp4' });
+    const object = await storage.getObjectStream('mp4/x.mp4', { start: 2, end: 5 });
+    const chunks: Buffer[] = [];
+    for await (const chunk of object.body) chunks.push(chunk as Buffer);
+    expect(Buffer.concat(chunks).toString()).toBe('2345');
+    expect(object).toMatchObject({ contentLength: 4, totalLength: 10 });
+    expect(await storage.deleteObjects(['mp4/x.mp4', 'missing.jpg'])).toEqual({ deleted: ['mp4/x.mp4', 'missing.jpg'], errors: [] });
+    expect(await storage.headObject('mp4/x.mp4')).toBeNull();
+    await expect(storage.headObject('../outside')).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe('http-range', () => {
+  it('resolves single byte ranges against the object size', () => {
+    expect(parseRangeHeader(undefined, 100)).toBeNull();
+    expect(parseRangeHeader('bytes=0-9', 100)).toEqual({ start: 0, end: 9 });
+    expect(parseRangeHeader('bytes=90-', 100)).toEqual({ start: 90, end: 99 });
+    expect(parseRangeHeader('bytes=-10', 100)).toEqual({ start: 90, end: 99 });
+    expect(parseRangeHeader('bytes=50-500', 100)).toEqual({ start: 50, end: 99 });
+    expect(parseRangeHeader('bytes=0-1,5-6', 100)).toBeNull();
+    expect(parseRangeHeader('bytes=9-3', 100)).toBeNull();
+    expect(parseRangeHeader('bytes=100-', 100)).toBe('unsatisfiable');
+  });
+
+  it('only honours If-Range for the current ETag or Last-Modified, and matches If-None-Match lists', () => {
+    const modified = new Date('2024-05-01T10:00:00.750Z');
+    expect(ifRangeMatches(undefined, '"h"', modified)).toBe(true);
+    expect(ifRangeMatches('"h"', '"h"', modified)).toBe(true);
+    expect(ifRangeMatches('W/"h"', '"h"', modified)).toBe(false);
+    expect(ifRangeMatches(modified.toUTCString(), '"h"', modified)).toBe(true);
+    expect(ifRangeMatches(new Date('2024-04-01').toUTCString(), '"h"', modified)).toBe(false);
+    expect(etagMatches('"a", W/"h"', '"h"')).toBe(true);
+    expect(etagMatches('"a"', '"h"')).toBe(false);
+  });
+});
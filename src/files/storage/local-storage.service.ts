@@ -0,0 +1,186 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ByteRange, StorageObject, StorageProvider } from './storage-provider';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.avi': 'video/x-msvideo',
+  '.mkv': 'video/x-matroska',
+  '.gif': 'image/gif',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+};
+
+// Keeps objects on local disk so the whole pipeline runs without AWS. URLs point at StorageController and
+// carry an HMAC signature over the method, key and expiry in place of S3's presigning
+@Injectable()
+export class LocalStorageService implements StorageProvider {
+  readonly name = 'local';
+  private readonly root: string;
+  private readonly baseUrl: string;
+  private readonly secret: string;
+
+  constructor(private configService: ConfigService) {
+    this.root = path.resolve(this.configService.get<string>('LOCAL_STORAGE_DIR') || 'storage');
+    this.baseUrl = (this.configService.get<string>('STORAGE_PUBLIC_URL') || `http://localhost:${this.configService.get<string>('PORT') || 3001}`).replace(/\/+$/, '');
+    this.secret = this.configService.get<string>('STORAGE_SIGNING_SECRET') || this.configService.get<string>('JWT_SECRET') || 'dev_secret_change_me';
+  }
+
+  async uploadFile(filePath: string, key: string, contentType: string, onProgress?: (uploadedBytes: number) => void, signal?: AbortSignal): Promise<string> {
+    try {
+      signal?.throwIfAborted();
+      await this.writeObject(key, fs.createReadStream(filePath), onProgress, signal);
+      return await this.getSignedUrl(key, 3600);
+    } catch (error) {
+      console.error('Error storing file locally:', error);
+      throw new Error(`Failed to store file: ${error.message}`);
+    }
+  }
+
+  // Written to a temporary name and renamed, so readers never see a half-written object
+  async writeObject(key: string, body: Readable, onProgress?: (writtenBytes: number) => void, signal?: AbortSignal): Promise<number> {
+    const target = this.resolveKey(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    const partial = `${target}.${randomBytes(6).toString('hex')}.part`;
+    let written = 0;
+    body.on('data', (chunk: Buffer) => { written += chunk.length; onProgress && onProgress(written); });
+    try {
+      await pipeline(body, fs.createWriteStream(partial), { signal });
+      await fs.promises.rename(partial, target);
+      return written;
+    } catch (error) {
+      await fs.promises.rm(partial, { force: true });
+      throw error;
+    }
+  }
+
+  async getObjectStream(key: string, range?: ByteRange): Promise<StorageObject> {
+    const target = this.resolveKey(key);
+    const stat = await this.statObject(target);
+    if (!stat) throw new HttpException('Object not found', HttpStatus.NOT_FOUND);
+    const body = fs.createReadStream(target, range ? { start: range.start, end: range.end } : {});
+    return {
+      body,
+      contentType: this.contentTypeFor(key),
+      contentLength: range ? range.end - range.start + 1 : stat.size,
+      totalLength: stat.size,
+    };
+  }
+
+  async downloadToFile(key: string, filePath: string): Promise<void> {
+    const { body } = await this.getObjectStream(key);
+    await pipeline(body, fs.createWriteStream(filePath));
+  }
+
+  async headObject(key: string): Promise<{ contentLength: number; contentType?: string } | null> {
+    const stat = await this.statObject(this.resolveKey(key));
+    return stat ? { contentLength: stat.size, contentType: this.contentTypeFor(key) } : null;
+  }
+
+  async deleteFile(key: string): Promise<void> {
+    try {
+      await fs.promises.rm(this.resolveKey(key), { force: true });
+    } catch (error) {
+      console.error('Error deleting local file:', error);
+      throw new Error(`Failed to delete file: ${error.message}`);
+    }
+  }
+
+  async listObjects(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    // The prefix may end mid-name, so walk from its directory and filter
+    const dir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+    const walk = async (relative: string) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(relative ? this.resolveKey(relative) : this.root, { withFileTypes: true });
+      } catch (error) {
+        if (error?.code === 'ENOENT' || error?.code === 'ENOTDIR') return;
+        throw error;
+      }
+      for (const entry of entries) {
+        const key = relative ? `${relative}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) await walk(key);
+        else if (entry.isFile() && key.startsWith(prefix)) keys.push(key);
+      }
+    };
+    await walk(dir);
+    return keys;
+  }
+
+  async deleteObjects(keys: string[]): Promise<{ deleted: string[]; errors: Array<{ key: string; message: string }> }> {
+    const deleted: string[] = [];
+    const errors: Array<{ key: string; message: string }> = [];
+    for (const key of new Set(keys)) {
+      try {
+        await fs.promises.rm(this.resolveKey(key), { force: true });
+        deleted.push(key);
+      } catch (error) {
+        errors.push({ key, message: (error as any)?.message || 'Delete failed' });
+      }
+    }
+    return { deleted, errors };
+  }
+
+  async getSignedUrl(key: string, expiresIn: number = 3600, downloadName?: string): Promise<string> {
+    return this.signUrl('GET', key, expiresIn, downloadName);
+  }
+
+  async getPresignedPutUrl(key: string, _contentType: string, expiresIn: number = 3600): Promise<string> {
+    return this.signUrl('PUT', key, expiresIn);
+  }
+
+  // False for a bad signature and for one that has expired
+  verifySignature(method: 'GET' | 'PUT', key: string, expires: string | undefined, signature: string | undefined, downloadName?: string): boolean {
+    const expiresAt = Number(expires);
+    if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) return false;
+    const expected = Buffer.from(this.sign(method, key, expiresAt, downloadName));
+    const given = Buffer.from(signature);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  contentTypeFor(key: string): string {
+    return CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+  }
+
+  private signUrl(method: 'GET' | 'PUT', key: string, expiresIn: number, downloadName?: string): string {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const query = new URLSearchParams({ expires: String(expires), signature: this.sign(method, key, expires, downloadName) });
+    if (downloadName) query.set('download', downloadName);
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return `${this.baseUrl}/storage/${encodedKey}?${query}`;
+  }
+
+  private sign(method: string, key: string, expires: number, downloadName?: string): string {
+    return createHmac('sha256', this.secret).update(`${method}\n${key}\n${expires}\n${downloadName ?? ''}`).digest('base64url');
+  }
+
+  // Keys are relative paths under the storage root; anything that would escape it is rejected
+  private resolveKey(key: string): string {
+    const segments = key.split('/');
+    if (!key || segments.some((s) => !s || s === '.' || s === '..' || s.includes('\\') || s.includes('\0'))) {
+      throw new HttpException('Invalid storage key', HttpStatus.BAD_REQUEST);
+    }
+    return path.join(this.root, ...segments);
+  }
+
+  private async statObject(target: string): Promise<fs.Stats | null> {
+    try {
+      const stat = await fs.promises.stat(target);
+      return stat.isFile() ? stat : null;
+    } catch (error) {
+      if (error?.code === 'ENOENT' || error?.code === 'ENOTDIR') return null;
+      throw error;
+    }
+  }
+}
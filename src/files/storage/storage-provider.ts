@@ -0,0 +1,42 @@
+import { Readable } from 'stream';
+
+// Inclusive byte offsets, already resolved against the object size
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StorageObject {
+  body: Readable;
+  contentType?: string;
+  // Bytes in body, i.e. the length of the range when one was requested
+  contentLength?: number;
+  // Size of the whole object
+  totalLength?: number;
+}
+
+export interface StorageProvider {
+  readonly name: 's3' | 'local';
+  // Stores a local file under key and returns a signed URL for it
+  uploadFile(filePath: string, key: string, contentType: string, onProgress?: (uploadedBytes: number) => void, signal?: AbortSignal): Promise<string>;
+  getObjectStream(key: string, range?: ByteRange): Promise<StorageObject>;
+  downloadToFile(key: string, filePath: string): Promise<void>;
+  // Null when the object does not exist (yet)
+  headObject(key: string): Promise<{ contentLength: number; contentType?: string } | null>;
+  deleteFile(key: string): Promise<void>;
+  // Every key under prefix, e.g. all the segments of an HLS ladder
+  listObjects(prefix: string): Promise<string[]>;
+  // Failures are reported per key instead of thrown; missing keys are not failures
+  deleteObjects(keys: string[]): Promise<{ deleted: string[]; errors: Array<{ key: string; message: string }> }>;
+  // Time-limited URL a browser can GET directly; downloadName makes it an attachment
+  getSignedUrl(key: string, expiresIn?: number, downloadName?: string): Promise<string>;
+  // Time-limited URL a client can PUT the object to without the bytes passing through the API
+  getPresignedPutUrl(key: string, contentType: string, expiresIn?: number): Promise<string>;
+  // Multipart direct uploads are optional; without them every direct upload is a single PUT
+  createMultipartUpload?(key: string, contentType: string): Promise<string>;
+  getPresignedPartUrl?(key: string, uploadId: string, partNumber: number, expiresIn?: number): Promise<string>;
+  completeMultipartUpload?(key: string, uploadId: string, parts: Array<{ partNumber: number; etag: string }>): Promise<void>;
+  abortMultipartUpload?(key: string, uploadId: string): Promise<void>;
+}
+
+export const STORAGE_PROVIDER = Symbol('STORAGE_PROVIDER');
@@ -0,0 +1,78 @@
+import { Controller, Get, Put, Param, Query, Headers, Req, Res, Inject, HttpException, HttpStatus } from '@nestjs/common';
+import { STORAGE_PROVIDER } from './storage-provider';
+import type { StorageProvider } from './storage-provider';
+import { LocalStorageService } from './local-storage.service';
+import { pipeline } from 'stream';
+import { parseRangeHeader } from './http-range';
+
+// Serves the local storage backend. There is no login check: the HMAC signature in the URL is the
+// authorisation, the same way a presigned S3 URL is, so links work in <video> tags and for share viewers
+@Controller('storage')
+export class StorageController {
+  constructor(@Inject(STORAGE_PROVIDER) private readonly storage: StorageProvider) {}
+
+  @Get('*key')
+  async get(
+    @Param('key') segments: string[],
+    @Query('expires') expires: string | undefined,
+    @Query('signature') signature: string | undefined,
+    @Query('download') downloadName: string | undefined,
+    @Headers('range') rangeHeader: string | undefined,
+    @Res() res: any,
+  ) {
+    const local = this.localStorage();
+    const key = segments.join('/');
+    if (!local.verifySignature('GET', key, expires, signature, downloadName)) {
+      throw new HttpException('Invalid or expired signature', HttpStatus.FORBIDDEN);
+    }
+    try {
+      const head = await local.headObject(key);
+      if (!head) throw new HttpException('Object not found', HttpStatus.NOT_FOUND);
+      const range = parseRangeHeader(rangeHeader, head.contentLength);
+      if (range === 'unsatisfiable') {
+        res.status(HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE).setHeader('Content-Range', `bytes */${head.contentLength}`);
+        return res.end();
+      }
+      const object = await local.getObjectStream(key, range ?? undefined);
+      res.setHeader('Accept-Ranges', 'bytes');
+      res.setHeader('Content-Type', object.contentType);
+      res.setHeader('Content-Length', String(object.contentLength));
+      if (downloadName) res.setHeader('Content-Disposition', `attachment; filename="${downloadName}"`);
+      if (range) {
+        res.status(HttpStatus.PARTIAL_CONTENT).setHeader('Content-Range', `bytes ${range.start}-${range.end}/${object.totalLength}`);
+      }
+      pipeline(object.body, res, () => {});
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException('Failed to read object', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  // Target of the direct-upload URLs handed out by FilesService.createPresignedUpload
+  @Put('*key')
+  async put(
+    @Param('key') segments: string[],
+    @Query('expires') expires: string | undefined,
+    @Query('signature') signature: string | undefined,
+    @Req() req: any,
+  ) {
+    const local = this.localStorage();
+    const key = segments.join('/');
+    if (!local.verifySignature('PUT', key, expires, signature)) {
+      throw new HttpException('Invalid or expired signature', HttpStatus.FORBIDDEN);
+    }
+    try {
+      const size = await local.writeObject(key, req);
+      return { key, size };
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException('Failed to store object', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  // The route only exists for the local backend; S3 URLs go to the bucket
+  private localStorage(): LocalStorageService {
+    if (!(this.storage instanceof LocalStorageService)) throw new HttpException('Not found', HttpStatus.NOT_FOUND);
+    return this.storage;
+  }
+}
@@ -0,0 +1,20 @@
+import { planStoryboard, buildStoryboardVtt } from './storyboard';
+
+describe('storyboard', () => {
+  it('widens the interval for long videos so one sheet holds every tile', () => {
+    expect(planStoryboard(42, 1920, 1080)).toEqual({ interval: 5, count: 9, columns: 9, rows: 1, tileWidth: 160, tileHeight: 90 });
+    const long = planStoryboard(3 * 60 * 60, 1280, 720)!;
+    expect(long.interval).toBe(108);
+    expect(long.count).toBeLessThanOrEqual(100);
+    expect(long.columns * long.rows).toBeGreaterThanOrEqual(long.count);
+    expect(planStoryboard(0, 1280, 720)).toBeNull();
+  });
+
+  it('maps each time range to its tile in the sprite', () => {
+    const layout = { interval: 5, count: 12, columns: 10, rows: 2, tileWidth: 160, tileHeight: 90 };
+    const vtt = buildStoryboardVtt(layout, 58.5, 'f1.jpg');
+    expect(vtt.startsWith('WEBVTT\n\n00:00:00.000 --> 00:00:05.000\nf1.jpg#xywh=0,0,160,90')).toBe(true);
+    expect(vtt).toContain('00:00:50.000 --> 00:00:55.000\nf1.jpg#xywh=0,90,160,90');
+    expect(vtt.trimEnd().endsWith('00:00:55.000 --> 00:00:58.500\nf1.jpg#xywh=160,90,160,90')).toBe(true);
+  });
+});
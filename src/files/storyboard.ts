@@ -0,0 +1,44 @@
+export interface StoryboardLayout {
+  // Seconds of video per tile
+  interval: number;
+  count: number;
+  columns: number;
+  rows: number;
+  tileWidth: number;
+  tileHeight: number;
+}
+
+const BASE_INTERVAL_SECONDS = 5;
+// Long videos get a wider interval so everything fits on one sheet
+const MAX_TILES = 100;
+const COLUMNS = 10;
+const TILE_WIDTH = 160;
+
+export function planStoryboard(durationSeconds: number, width: number, height: number): StoryboardLayout | null {
+  if (!(durationSeconds > 0) || !(width > 0) || !(height > 0)) return null;
+  const interval = Math.max(BASE_INTERVAL_SECONDS, Math.ceil(durationSeconds / MAX_TILES));
+  const count = Math.max(Math.ceil(durationSeconds / interval), 1);
+  const columns = Math.min(count, COLUMNS);
+  // Even height keeps the scaler happy with yuv420p sources
+  const tileHeight = Math.max(Math.round((TILE_WIDTH * height) / width / 2) * 2, 2);
+  return { interval, count, columns, rows: Math.ceil(count / columns), tileWidth: TILE_WIDTH, tileHeight };
+}
+
+function vttTime(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+}
+
+// One cue per tile pointing into the sprite with a media fragment, the format players use for seek previews
+export function buildStoryboardVtt(layout: StoryboardLayout, durationSeconds: number, spriteUrl: string): string {
+  const cues: string[] = [];
+  for (let i = 0; i < layout.count; i++) {
+    const start = i * layout.interval;
+    const end = Math.min((i + 1) * layout.interval, durationSeconds);
+    const x = (i % layout.columns) * layout.tileWidth;
+    const y = Math.floor(i / layout.columns) * layout.tileHeight;
+    cues.push(`${vttTime(start)} --> ${vttTime(end)}\n${spriteUrl}#xywh=${x},${y},${layout.tileWidth},${layout.tileHeight}`);
+  }
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
@@ -0,0 +1,56 @@
+import { Controller, Get, Post, Body, Query, HttpException, HttpStatus, UseGuards, Request, HttpCode } from '@nestjs/common';
+import { TagsService } from './tags.service';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+
+@Controller('tags')
+@UseGuards(JwtAuthGuard)
+export class TagsController {
+  constructor(private readonly tagsService: TagsService) {}
+
+  @Get()
+  async list(@Request() req: any) {
+    try {
+      return await this.tagsService.listTags(req.user.userId);
+    } catch (e) {
+      throw new HttpException('Failed to list tags', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  // GET /tags/suggest?prefix=fun for autocomplete
+  @Get('suggest')
+  async suggest(@Query('prefix') prefix: string | undefined, @Query('limit') limit: string | undefined, @Request() req: any) {
+    try {
+      return await this.tagsService.suggestTags(req.user.userId, prefix || '', limit ? parseInt(limit, 10) || undefined : undefined);
+    } catch (e) {
+      throw new HttpException('Failed to suggest tags', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Post('rename')
+  @HttpCode(HttpStatus.OK)
+  async rename(@Body() body: { from: string; to: string }, @Request() req: any) {
+    if (typeof body?.from !== 'string' || typeof body?.to !== 'string') throw new HttpException('from and to must be strings', HttpStatus.BAD_REQUEST);
+    try {
+      const result = await this.tagsService.renameTag(req.user.userId, body.from, body.to);
+      return { message: 'Tag renamed', ...result };
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException('Failed to rename tag', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Post('merge')
+  @HttpCode(HttpStatus.OK)
+  async merge(@Body() body: { from: string[]; into: string }, @Request() req: any) {
+    if (!Array.isArray(body?.from) || body.from.some((t) => typeof t !== 'string') || typeof body?.into !== 'string') {
+      throw new HttpException('from must be an array of strings and into a string', HttpStatus.BAD_REQUEST);
+    }
+    try {
+      const result = await this.tagsService.mergeTags(req.user.userId, body.from, body.into);
+      return { message: 'Tags merged', ...result };
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException('Failed to merge tags', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+}
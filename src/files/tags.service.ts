@@ -0,0 +1,111 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { FileEntity } from './entities/file.entity';
+import { FilesService } from './files.service';
+import { normalizeTag, normalizeTags } from './tags';
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// Same rules as normalizeTag, so rows written before normalization still group and match correctly
+const normalizedTagSql = (column: string) => `lower(regexp_replace(btrim(${column}), '\\s+', ' ', 'g'))`;
+
+@Injectable()
+export class TagsService {
+  private static readonly DEFAULT_SUGGESTIONS = 10;
+  private static readonly MAX_SUGGESTIONS = 50;
+
+  constructor(
+    @InjectRepository(FileEntity)
+    private readonly fileRepository: Repository<FileEntity>,
+    private readonly filesService: FilesService,
+  ) {}
+
+  // Every tag the user has, most used first
+  async listTags(ownerId: string): Promise<TagCount[]> {
+    return await this.countTags(ownerId);
+  }
+
+  async suggestTags(ownerId: string, prefix: string, limit?: number): Promise<TagCount[]> {
+    const normalized = normalizeTag(prefix);
+    const max = Math.min(Math.max(limit ?? TagsService.DEFAULT_SUGGESTIONS, 1), TagsService.MAX_SUGGESTIONS);
+    return await this.countTags(ownerId, normalized, max);
+  }
+
+  async renameTag(ownerId: string, from: string, to: string): Promise<{ tag: string; files: number }> {
+    const source = normalizeTag(from);
+    const target = normalizeTag(to);
+    if (!source || !target) throw new HttpException('from and to are required', HttpStatus.BAD_REQUEST);
+    if (source === target) throw new HttpException('from and to are the same tag', HttpStatus.BAD_REQUEST);
+    if (await this.tagInUse(ownerId, target)) {
+      throw new HttpException(`Tag "${target}" already exists; merge the tags instead`, HttpStatus.CONFLICT);
+    }
+    const files = await this.rewriteTags(ownerId, [source], target);
+    if (files === 0) throw new HttpException('Tag not found', HttpStatus.NOT_FOUND);
+    return { tag: target, files };
+  }
+
+  // Folds the source tags into the target, which may or may not exist yet
+  async mergeTags(ownerId: string, from: string[], into: string): Promise<{ tag: string; files: number }> {
+    const target = normalizeTag(into);
+    const sources = normalizeTags(from).filter((t) => t !== target);
+    if (!target || sources.length === 0) throw new HttpException('from must name at least one tag other than into', HttpStatus.BAD_REQUEST);
+    const files = await this.rewriteTags(ownerId, sources, target);
+    if (files === 0) throw new HttpException('Tag not found', HttpStatus.NOT_FOUND);
+    return { tag: target, files };
+  }
+
+  private async countTags(ownerId: string, prefix?: string, limit?: number): Promise<TagCount[]> {
+    const params: unknown[] = [ownerId];
+    let where = '';
+    if (prefix) {
+      params.push(`${prefix.replace(/[\\%_]/g, '\\$&')}%`);
+      where = `AND ${normalizedTagSql('t.raw')} LIKE $${params.length}`;
+    }
+    let limitSql = '';
+    if (limit) {
+      params.push(limit);
+      limitSql = `LIMIT $${params.length}`;
+    }
+    const rows: Array<{ tag: string; count: number }> = await this.fileRepository.query(
+      `SELECT ${normalizedTagSql('t.raw')} AS "tag", count(DISTINCT f."id")::int AS "count"
+       FROM "files" f CROSS JOIN LATERAL unnest(f."tags") AS t(raw)
+       WHERE f."ownerId" = $1 AND f."deletedAt" IS NULL AND ${normalizedTagSql('t.raw')} <> '' ${where}
+       GROUP BY 1 ORDER BY "count" DESC, "tag" ASC ${limitSql}`,
+      params,
+    );
+    return rows.map((r) => ({ tag: r.tag, count: Number(r.count) }));
+  }
+
+  private async tagInUse(ownerId: string, tag: string): Promise<boolean> {
+    const rows = await this.fileRepository.query(
+      `SELECT 1 FROM "files" f CROSS JOIN LATERAL unnest(f."tags") AS t(raw) WHERE f."ownerId" = $1 AND f."deletedAt" IS NULL AND ${normalizedTagSql('t.raw')} = $2 LIMIT 1`,
+      [ownerId, tag],
+    );
+    return rows.length > 0;
+  }
+
+  // One UPDATE across all of the user's files, so a rename or merge is never half-applied. Tags keep their
+  // order, and a file that already had the target ends up with it once. Trashed files are rewritten too so
+  // they come back with the current tag names
+  private async rewriteTags(ownerId: string, sources: string[], target: string): Promise<number> {
+    const [rows, affected]: [Array<{ id: string }>, number] = await this.fileRepository.query(
+      `UPDATE "files" SET "tags" = (
+         SELECT array_agg(s.tag ORDER BY s.pos) FROM (
+           SELECT CASE WHEN ${normalizedTagSql('u.raw')} = ANY($2::text[]) THEN $3 ELSE ${normalizedTagSql('u.raw')} END AS tag, min(u.pos) AS pos
+           FROM unnest("tags") WITH ORDINALITY AS u(raw, pos)
+           WHERE ${normalizedTagSql('u.raw')} <> ''
+           GROUP BY 1
+         ) s
+       )
+       WHERE "ownerId" = $1 AND EXISTS (SELECT 1 FROM unnest("tags") AS t(raw) WHERE ${normalizedTagSql('t.raw')} = ANY($2::text[]))
+       RETURNING "id"`,
+      [ownerId, sources, target],
+    );
+    if (rows.length > 0) await this.filesService.refreshSearchVectors(rows.map((r) => r.id));
+    return affected;
+  }
+}
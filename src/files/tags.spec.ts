@@ -0,0 +1,14 @@
+import { normalizeTag, parseTagList } from './tags';
+
+describe('tag normalization', () => {
+  it('folds case and collapses whitespace', () => {
+    expect(normalizeTag('  Funny \t Cats ')).toBe('funny cats');
+  });
+
+  it('parses comma-separated strings and arrays the same way, dropping empties and duplicates', () => {
+    expect(parseTagList('Funny, funny ,, Cats  Vids')).toEqual(['funny', 'cats vids']);
+    expect(parseTagList(['Funny', ' FUNNY', 'cats  vids'])).toEqual(['funny', 'cats vids']);
+    expect(parseTagList('')).toBeUndefined();
+    expect(parseTagList(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,15 @@
+// Tags are compared case-insensitively with runs of whitespace collapsed, so "Funny  Cats" and "funny cats" are one tag
+export function normalizeTag(raw: string): string {
+  return String(raw).normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Normalizes, drops empties and removes duplicates while keeping the first occurrence's position
+export function normalizeTags(raw: readonly string[]): string[] {
+  return [...new Set(raw.map(normalizeTag).filter(Boolean))];
+}
+
+// Request bodies send tags either as an array or as a comma-separated string
+export function parseTagList(input?: string | readonly string[] | null): string[] | undefined {
+  if (input === undefined || input === null || input === '') return undefined;
+  return normalizeTags(Array.isArray(input) ? input : String(input).split(','));
+}
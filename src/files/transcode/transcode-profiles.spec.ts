@@ -0,0 +1,24 @@
+import { decideTranscode, parseTranscodeProfiles, BUILT_IN_TRANSCODE_PROFILES } from './transcode-profiles';
+
+describe('transcode-profiles', () => {
+  const mp4 = 'mov,mp4,m4a,3gp,3g2,mj2';
+
+  it('leaves playable MP4s alone, remuxes compatible streams and transcodes the rest', () => {
+    expect(decideTranscode({ formatName: mp4, videoCodec: 'h264', pixelFormat: 'yuv420p', audioCodec: 'aac' }, 'video/mp4')).toBe('none');
+    expect(decideTranscode({ formatName: mp4, videoCodec: 'h264', pixelFormat: 'yuv420p', audioCodec: 'aac' }, 'video/quicktime')).toBe('remux');
+    expect(decideTranscode({ formatName: 'matroska,webm', videoCodec: 'h264', audioCodec: 'mp3' }, 'video/x-matroska')).toBe('remux');
+    expect(decideTranscode({ formatName: mp4, videoCodec: 'hevc', pixelFormat: 'yuv420p' }, 'video/mp4')).toBe('transcode');
+    expect(decideTranscode({ formatName: mp4, videoCodec: 'vp9', audioCodec: 'opus' }, 'video/mp4')).toBe('transcode');
+    expect(decideTranscode({ formatName: mp4, videoCodec: 'h264', pixelFormat: 'yuv420p10le' }, 'video/mp4')).toBe('transcode');
+    expect(decideTranscode({ formatName: 'matroska,webm', videoCodec: 'vp8', audioCodec: 'vorbis' }, 'video/webm')).toBe('transcode');
+  });
+
+  it('adds valid configured profiles and skips broken ones', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const profiles = parseTranscodeProfiles('{"archive":{"crf":18,"preset":"slow","audioKbps":192},"bad":{"crf":90,"preset":"slow","audioKbps":1}}');
+    expect(profiles.archive).toEqual({ crf: 18, preset: 'slow', audioKbps: 192 });
+    expect(profiles.bad).toBeUndefined();
+    expect(parseTranscodeProfiles('not json')).toEqual(BUILT_IN_TRANSCODE_PROFILES);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,65 @@
+export interface TranscodeProfile {
+  crf: number;
+  preset: string;
+  audioKbps: number;
+  // Downscale anything taller; the source size is kept when unset
+  maxHeight?: number;
+}
+
+export const DEFAULT_TRANSCODE_PROFILE = 'default';
+
+export const BUILT_IN_TRANSCODE_PROFILES: Record<string, TranscodeProfile> = {
+  default: { crf: 23, preset: 'veryfast', audioKbps: 128 },
+  quality: { crf: 20, preset: 'medium', audioKbps: 160 },
+  small: { crf: 28, preset: 'veryfast', audioKbps: 96, maxHeight: 720 },
+};
+
+const PRESETS = ['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow', 'slower', 'veryslow'];
+
+// TRANSCODE_PROFILES is a JSON object of extra or replacement profiles, e.g. {"archive":{"crf":18,"preset":"slow","audioKbps":192}}.
+// Entries that don't describe a usable profile are skipped with a warning rather than failing startup
+export function parseTranscodeProfiles(raw?: string): Record<string, TranscodeProfile> {
+  const profiles = { ...BUILT_IN_TRANSCODE_PROFILES };
+  if (!raw?.trim()) return profiles;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.warn('[transcode] TRANSCODE_PROFILES is not valid JSON; using the built-in profiles');
+    return profiles;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return profiles;
+  for (const [name, value] of Object.entries(parsed as Record<string, any>)) {
+    const valid = value && Number.isInteger(value.crf) && value.crf >= 0 && value.crf <= 51
+      && PRESETS.includes(value.preset)
+      && Number.isInteger(value.audioKbps) && value.audioKbps > 0
+      && (value.maxHeight === undefined || (Number.isInteger(value.maxHeight) && value.maxHeight > 0));
+    if (!valid) {
+      console.warn('[transcode] ignoring invalid profile', name);
+      continue;
+    }
+    profiles[name] = { crf: value.crf, preset: value.preset, audioKbps: value.audioKbps, ...(value.maxHeight ? { maxHeight: value.maxHeight } : {}) };
+  }
+  return profiles;
+}
+
+export interface MediaProbe {
+  // ffprobe's format_name, e.g. "mov,mp4,m4a,3gp,3g2,mj2" or "matroska,webm"
+  formatName: string;
+  videoCodec?: string;
+  pixelFormat?: string;
+  audioCodec?: string;
+}
+
+// none: already plays everywhere; remux: the streams are fine but the container isn't, so copy them into MP4
+export type TranscodeDecision = 'none' | 'remux' | 'transcode';
+
+// What Safari/iOS and every other browser can play: 8-bit 4:2:0 H.264 with AAC or MP3, in an MP4 served as video/mp4
+export function decideTranscode(probe: MediaProbe, mimeType: string): TranscodeDecision {
+  if (!probe.videoCodec) return 'none';
+  const videoOk = probe.videoCodec === 'h264' && (!probe.pixelFormat || probe.pixelFormat === 'yuv420p' || probe.pixelFormat === 'yuvj420p');
+  const audioOk = !probe.audioCodec || probe.audioCodec === 'aac' || probe.audioCodec === 'mp3';
+  if (!videoOk || !audioOk) return 'transcode';
+  const mp4Container = probe.formatName.split(',').includes('mp4');
+  return mp4Container && mimeType === 'video/mp4' ? 'none' : 'remux';
+}
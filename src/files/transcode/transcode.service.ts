@@ -0,0 +1,131 @@
+import { Injectable, Inject, HttpException, HttpStatus, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Repository } from 'typeorm';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileEntity } from '../entities/file.entity';
+import { FileProcessingService } from '../file-processing.service';
+import { MediaJobQueueService } from '../media-job-queue.service';
+import { STORAGE_PROVIDER } from '../storage/storage-provider';
+import type { StorageProvider } from '../storage/storage-provider';
+import { TranscodeProfile, DEFAULT_TRANSCODE_PROFILE, parseTranscodeProfiles, decideTranscode } from './transcode-profiles';
+
+interface TranscodeTask {
+  profile: string;
+  // Encode even when the file already plays everywhere
+  force?: boolean;
+}
+
+// Produces the MP4 playback rendition at mp4/<id>.mp4 for videos that browsers (Safari and iOS in particular)
+// can't play as uploaded. Jobs go through the shared media queue so they never compete with other ffmpeg work
+@Injectable()
+export class TranscodeService implements OnApplicationBootstrap {
+  private static readonly MAX_ERROR_LENGTH = 500;
+  private static readonly PROGRESS_STEP = 5;
+
+  private readonly profiles: Record<string, TranscodeProfile>;
+
+  constructor(
+    @InjectRepository(FileEntity)
+    private readonly fileRepository: Repository<FileEntity>,
+    @Inject(STORAGE_PROVIDER)
+    private readonly storage: StorageProvider,
+    private readonly fileProcessingService: FileProcessingService,
+    private readonly mediaQueue: MediaJobQueueService,
+    private readonly config: ConfigService,
+  ) {
+    this.profiles = parseTranscodeProfiles(this.config.get<string>('TRANSCODE_PROFILES'));
+  }
+
+  // Jobs that were queued or running when the process stopped start over
+  async onApplicationBootstrap() {
+    const interrupted = await this.fileRepository.find({ where: { transcodeStatus: In(['pending', 'processing']) } });
+    for (const file of interrupted) {
+      void this.enqueue(file.id, { profile: file.transcodeProfile || this.defaultProfile });
+    }
+  }
+
+  // TRANSCODE_PROFILE names the profile uploads use, falling back to the built-in default
+  private get defaultProfile(): string {
+    const name = this.config.get<string>('TRANSCODE_PROFILE');
+    return name && this.profiles[name] ? name : DEFAULT_TRANSCODE_PROFILE;
+  }
+
+  listProfiles(): Array<{ name: string; isDefault: boolean } & TranscodeProfile> {
+    return Object.entries(this.profiles).map(([name, profile]) => ({ name, isDefault: name === this.defaultProfile, ...profile }));
+  }
+
+  // Called by the upload pipeline; the job fetches the original from storage when its turn comes. Resolves once it's done
+  async transcodeUpload(fileId: string): Promise<void> {
+    await this.enqueue(fileId, { profile: this.defaultProfile });
+  }
+
+  // Queues a file again, e.g. after a failure. Naming a profile re-encodes even a file that needs nothing
+  async requeue(id: string, ownerId: string, profile?: string): Promise<{ id: string; transcodeStatus: 'pending'; profile: string }> {
+    if (profile !== undefined && !this.profiles[profile]) {
+      throw new HttpException(`Unknown profile; use one of: ${Object.keys(this.profiles).join(', ')}`, HttpStatus.BAD_REQUEST);
+    }
+    const file = await this.fileRepository.findOne({ where: { id, ownerId } });
+    if (!file) throw new HttpException('File not found', HttpStatus.NOT_FOUND);
+    if (!file.mimeType?.startsWith('video/')) throw new HttpException('Only videos can be transcoded', HttpStatus.BAD_REQUEST);
+    if (file.transcodeStatus === 'pending' || file.transcodeStatus === 'processing') {
+      throw new HttpException('File is already queued for transcoding', HttpStatus.CONFLICT);
+    }
+    const name = profile ?? this.defaultProfile;
+    await this.fileRepository.update(file.id, { transcodeStatus: 'pending', transcodeProgress: null, transcodeError: null, transcodeProfile: name });
+    void this.enqueue(file.id, { profile: name, force: profile !== undefined });
+    return { id: file.id, transcodeStatus: 'pending', profile: name };
+  }
+
+  // Never rejects: callers fire and forget, and an unhandled rejection would take the process down
+  private enqueue(fileId: string, task: TranscodeTask): Promise<void> {
+    return this.mediaQueue.run(() => this.run(fileId, task))
+      .catch((e) => console.error('Transcode job failed', fileId, (e as any)?.message || e));
+  }
+
+  private async run(fileId: string, task: TranscodeTask): Promise<void> {
+    const file = await this.fileRepository.findOne({ where: { id: fileId } });
+    if (!file) return;
+    const tempDir = path.join(process.cwd(), 'temp');
+    const sourcePath = path.join(tempDir, `transcode_${file.id}_${Date.now()}${path.extname(file.filename)}`);
+    let mp4Path: string | undefined;
+    let progressWrite: Promise<unknown> = Promise.resolve();
+    try {
+      if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
+      await this.storage.downloadToFile(file.filename, sourcePath);
+      const decision = decideTranscode(this.fileProcessingService.probeMedia(sourcePath), file.mimeType);
+      if (decision === 'none' && !task.force) {
+        await this.fileRepository.update(file.id, { transcodeStatus: null, transcodeProgress: null, transcodeError: null });
+        return;
+      }
+      const remux = decision === 'remux' && !task.force;
+      await this.fileRepository.update(file.id, { transcodeStatus: 'processing', transcodeProgress: 0, transcodeError: null, transcodeProfile: remux ? null : task.profile });
+      let reported = 0;
+      mp4Path = await this.fileProcessingService.transcodeToMp4(sourcePath, {
+        profile: this.profiles[task.profile],
+        remux,
+        onProgress: (percent) => {
+          // Steps keep the row from being rewritten for every ffmpeg progress line
+          if (percent - reported < TranscodeService.PROGRESS_STEP) return;
+          reported = Math.floor(percent);
+          progressWrite = this.fileRepository.update(file.id, { transcodeProgress: reported }).catch(() => {});
+        },
+      });
+      const mp4Key = `mp4/${file.id}.mp4`;
+      await this.storage.uploadFile(mp4Path, mp4Key, 'video/mp4');
+      // A late progress write must not land after the final status
+      await progressWrite;
+      await this.fileRepository.update(file.id, { mp4Key, transcodeStatus: 'ready', transcodeProgress: 100, transcodedAt: new Date() });
+    } catch (e) {
+      const message = String((e as any)?.message || e).slice(0, TranscodeService.MAX_ERROR_LENGTH);
+      console.error('Transcode failed', file.id, message);
+      await progressWrite;
+      await this.fileRepository.update(file.id, { transcodeStatus: 'failed', transcodeProgress: null, transcodeError: message })
+        .catch((err) => console.error('Recording transcode failure failed', file.id, (err as any)?.message || err));
+    } finally {
+      try { fs.unlinkSync(sourcePath); } catch {}
+      if (mp4Path) { try { fs.unlinkSync(mp4Path); } catch {} }
+    }
+  }
+}
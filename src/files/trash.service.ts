@@ -0,0 +1,158 @@
+import { Injectable, Inject, HttpException, HttpStatus, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, IsNull, LessThan, Not, Repository } from 'typeorm';
+import { FileEntity } from './entities/file.entity';
+import { FilesService, FileRecord } from './files.service';
+import { STORAGE_PROVIDER } from './storage/storage-provider';
+import type { StorageProvider } from './storage/storage-provider';
+
+export interface TrashedFileRecord extends FileRecord {
+  deletedAt: string;
+  // When the scheduled purge will remove the file for good
+  purgeAt: string;
+}
+
+@Injectable()
+export class TrashService implements OnApplicationBootstrap, OnModuleDestroy {
+  private static readonly DEFAULT_RETENTION_DAYS = 30;
+  private static readonly PURGE_INTERVAL_MS = 60 * 60 * 1000;
+  private static readonly PURGE_BATCH_SIZE = 200;
+
+  private purgeTimer?: NodeJS.Timeout;
+  private purging = false;
+
+  constructor(
+    @InjectRepository(FileEntity)
+    private readonly fileRepository: Repository<FileEntity>,
+    private readonly filesService: FilesService,
+    @Inject(STORAGE_PROVIDER)
+    private readonly storage: StorageProvider,
+    private readonly config: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const run = () => this.purgeExpired().catch((e) => console.error('[trash] scheduled purge failed', (e as any)?.message || e));
+    void run();
+    this.purgeTimer = setInterval(() => void run(), TrashService.PURGE_INTERVAL_MS);
+    // Don't keep the process alive just for the purge
+    this.purgeTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.purgeTimer) clearInterval(this.purgeTimer);
+  }
+
+  // TRASH_RETENTION_DAYS, falling back to the default when unset or not a positive number
+  private get retentionMs(): number {
+    const days = Number(this.config.get<string>('TRASH_RETENTION_DAYS'));
+    return (Number.isFinite(days) && days > 0 ? days : TrashService.DEFAULT_RETENTION_DAYS) * 24 * 60 * 60 * 1000;
+  }
+
+  async listTrash(ownerId: string, options: { limit?: number; offset?: number } = {}) {
+    const limit = Math.min(Math.max(options.limit ?? 50, 1), 200);
+    const offset = Math.max(options.offset ?? 0, 0);
+    const [rows, total] = await this.fileRepository.findAndCount({
+      where: { ownerId, deletedAt: Not(IsNull()) },
+      withDeleted: true,
+      order: { deletedAt: 'DESC' },
+      take: limit,
+      skip: offset,
+    });
+    const items: TrashedFileRecord[] = await Promise.all(rows.map(async (file) => ({
+      ...(await this.filesService.toSignedRecord(file)),
+      deletedAt: file.deletedAt!.toISOString(),
+      purgeAt: new Date(file.deletedAt!.getTime() + this.retentionMs).toISOString(),
+    })));
+    return { items, total, limit, offset };
+  }
+
+  async restoreFile(id: string, ownerId: string): Promise<FileRecord> {
+    const file = await this.fileRepository.findOne({ where: { id, ownerId, deletedAt: Not(IsNull()) }, withDeleted: true });
+    if (!file) throw new HttpException('File not found in trash', HttpStatus.NOT_FOUND);
+    // The same content may have been uploaded again while this copy sat in the trash
+    const live = await this.fileRepository.findOne({ where: { hash: file.hash, ownerId }, select: { id: true } });
+    if (live) {
+      throw new HttpException({ message: 'Duplicate file detected. This file was uploaded again while it was in the trash.', fileId: live.id }, HttpStatus.CONFLICT);
+    }
+    await this.fileRepository.restore(file.id);
+    return await this.filesService.toSignedRecord({ ...file, deletedAt: null });
+  }
+
+  async emptyTrash(ownerId: string): Promise<{ purged: number; failed: number }> {
+    let purged = 0;
+    let failed = 0;
+    const skip = new Set<string>();
+    for (;;) {
+      const batch = await this.fileRepository.find({
+        where: { ownerId, deletedAt: Not(IsNull()), ...(skip.size ? { id: Not(In([...skip])) } : {}) },
+        withDeleted: true,
+        take: TrashService.PURGE_BATCH_SIZE,
+      });
+      if (batch.length === 0) break;
+      const result = await this.purgeFiles(batch);
+      purged += result.purged.length;
+      failed += result.failed.length;
+      result.failed.forEach((id) => skip.add(id));
+    }
+    return { purged, failed };
+  }
+
+  // Permanently removes files that have been in the trash longer than the retention period
+  async purgeExpired(): Promise<number> {
+    if (this.purging) return 0;
+    this.purging = true;
+    try {
+      const cutoff = new Date(Date.now() - this.retentionMs);
+      let purged = 0;
+      const skip = new Set<string>();
+      for (;;) {
+        const batch = await this.fileRepository.find({
+          where: { deletedAt: LessThan(cutoff), ...(skip.size ? { id: Not(In([...skip])) } : {}) },
+          withDeleted: true,
+          order: { deletedAt: 'ASC' },
+          take: TrashService.PURGE_BATCH_SIZE,
+        });
+        if (batch.length === 0) break;
+        const result = await this.purgeFiles(batch);
+        purged += result.purged.length;
+        result.failed.forEach((id) => skip.add(id));
+      }
+      if (purged) console.log('[trash] purged expired files:', purged);
+      return purged;
+    } finally {
+      this.purging = false;
+    }
+  }
+
+  // Objects go first; a file whose objects could not all be removed keeps its row so a later purge retries it.
+  // Derived keys (thumbnail, MP4, storyboard, preview) are included even when unrecorded, as missing keys are not delete errors
+  private async purgeFiles(files: FileEntity[]): Promise<{ purged: string[]; failed: string[] }> {
+    const owners = new Map<string, string>();
+    for (const file of files) {
+      owners.set(file.filename, file.id);
+      owners.set(`thumbnails/${file.id}.jpg`, file.id);
+      owners.set(`mp4/${file.id}.mp4`, file.id);
+      owners.set(`storyboards/${file.id}.jpg`, file.id);
+      owners.set(`storyboards/${file.id}.vtt`, file.id);
+      owners.set(`previews/${file.id}.mp4`, file.id);
+      if (file.mp4Key) owners.set(file.mp4Key, file.id);
+    }
+    // HLS ladders have a key per segment, so those are listed rather than derived
+    const failed = new Set<string>();
+    for (const file of files.filter((f) => f.hlsStatus)) {
+      try {
+        for (const key of await this.storage.listObjects(`hls/${file.id}/`)) owners.set(key, file.id);
+      } catch (e) {
+        console.error('[trash] could not list HLS objects', file.id, (e as any)?.message || e);
+        failed.add(file.id);
+      }
+    }
+    const { errors } = await this.storage.deleteObjects([...owners.keys()]);
+    errors.forEach((e) => failed.add(owners.get(e.key)!));
+    for (const e of errors) console.error('[trash] could not delete object', e.key, e.message);
+    const purged = files.map((f) => f.id).filter((id) => !failed.has(id));
+    if (purged.length) await this.fileRepository.delete({ id: In(purged) });
+    return { purged, failed: [...failed] };
+  }
+}
@@ -18,6 +18,8 @@ async function bootstrap() {
       'http://192.168.1.81:3001'
     ],
     credentials: true,
+    // Resumable upload clients read these from responses
+    exposedHeaders: ['Location', 'Upload-Offset', 'Upload-Length', 'Tus-Resumable'],
   });
   
   // Enable validation pipes
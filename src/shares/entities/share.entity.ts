@@ -0,0 +1,53 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { FileEntity } from '../../files/entities/file.entity';
+import { CollectionEntity } from '../../collections/entities/collection.entity';
+
+// Public link to a single file or a whole collection; exactly one of fileId and collectionId is set
+@Entity('shares')
+export class ShareEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index({ unique: true })
+  @Column({ type: 'text' })
+  token: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  ownerId: string;
+
+  @ManyToOne(() => FileEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'fileId' })
+  file?: FileEntity | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  fileId?: string | null;
+
+  @ManyToOne(() => CollectionEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'collectionId' })
+  collection?: CollectionEntity | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  collectionId?: string | null;
+
+  // Never expires when null
+  @Column({ type: 'timestamptz', nullable: true })
+  expiresAt?: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  passwordHash?: string | null;
+
+  @Column({ default: false })
+  allowDownload: boolean;
+
+  @Column({ type: 'int', default: 0 })
+  viewCount: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastViewedAt?: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
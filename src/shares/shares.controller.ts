@@ -0,0 +1,85 @@
+import { Controller, Get, Post, Delete, Param, Body, Query, Headers, HttpException, HttpStatus, UseGuards, Request } from '@nestjs/common';
+import { SharesService, ShareOptions } from './shares.service';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+
+type ShareBody = { expiresAt?: string | null; password?: string | null; allowDownload?: boolean };
+
+function parseShareOptions(body: ShareBody | undefined): ShareOptions {
+  let expiresAt: Date | null = null;
+  if (body?.expiresAt) {
+    expiresAt = new Date(body.expiresAt);
+    if (isNaN(expiresAt.getTime())) throw new HttpException('expiresAt must be a date', HttpStatus.BAD_REQUEST);
+  }
+  if (body?.password != null && typeof body.password !== 'string') throw new HttpException('password must be a string', HttpStatus.BAD_REQUEST);
+  if (body?.allowDownload !== undefined && typeof body.allowDownload !== 'boolean') throw new HttpException('allowDownload must be a boolean', HttpStatus.BAD_REQUEST);
+  return { expiresAt, password: body?.password || null, allowDownload: body?.allowDownload ?? false };
+}
+
+// Owner-side management; share creation sits next to the file and collection routes it belongs to
+@Controller()
+@UseGuards(JwtAuthGuard)
+export class SharesController {
+  constructor(private readonly shares: SharesService) {}
+
+  @Post('files/:id/share')
+  async shareFile(@Param('id') id: string, @Body() body: ShareBody, @Request() req: any) {
+    const options = parseShareOptions(body);
+    try {
+      return await this.shares.shareFile(id, req.user.userId, options);
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException('Failed to create share link', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Post('collections/:id/share')
+  async shareCollection(@Param('id') id: string, @Body() body: ShareBody, @Request() req: any) {
+    const options = parseShareOptions(body);
+    try {
+      return await this.shares.shareCollection(id, req.user.userId, options);
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException('Failed to create share link', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  // GET /shares?fileId= or ?collectionId= narrows to one target
+  @Get('shares')
+  async list(@Query('fileId') fileId: string | undefined, @Query('collectionId') collectionId: string | undefined, @Request() req: any) {
+    const uuid = /^[0-9a-f-]{36}$/i;
+    if ((fileId && !uuid.test(fileId)) || (collectionId && !uuid.test(collectionId))) throw new HttpException('fileId and collectionId must be UUIDs', HttpStatus.BAD_REQUEST);
+    try {
+      return await this.shares.listShares(req.user.userId, { fileId, collectionId });
+    } catch (e) {
+      throw new HttpException('Failed to list share links', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Delete('shares/:id')
+  async revoke(@Param('id') id: string, @Request() req: any) {
+    try {
+      await this.shares.revokeShare(id, req.user.userId);
+      return { message: 'Share link revoked' };
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException('Failed to revoke share link', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+}
+
+// Unauthenticated: anyone holding the token can view
+@Controller('s')
+export class PublicSharesController {
+  constructor(private readonly shares: SharesService) {}
+
+  // Password-protected shares take the password in X-Share-Password rather than the URL, which ends up in logs
+  @Get(':token')
+  async open(@Param('token') token: string, @Headers('x-share-password') password: string | undefined) {
+    try {
+      return await this.shares.openShare(token, password);
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException('Failed to open share link', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+}
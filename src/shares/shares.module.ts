@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SharesController, PublicSharesController } from './shares.controller';
+import { SharesService } from './shares.service';
+import { ShareEntity } from './entities/share.entity';
+import { FileEntity } from '../files/entities/file.entity';
+import { CollectionEntity } from '../collections/entities/collection.entity';
+import { CollectionItemEntity } from '../collections/entities/collection-item.entity';
+import { FilesModule } from '../files/files.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ShareEntity, FileEntity, CollectionEntity, CollectionItemEntity]), FilesModule],
+  controllers: [SharesController, PublicSharesController],
+  providers: [SharesService],
+})
+export class SharesModule {}
@@ -0,0 +1,71 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import * as bcrypt from 'bcrypt';
+import { SharesService } from './shares.service';
+import { ShareEntity } from './entities/share.entity';
+import { FileEntity } from '../files/entities/file.entity';
+import { CollectionEntity } from '../collections/entities/collection.entity';
+import { CollectionItemEntity } from '../collections/entities/collection-item.entity';
+import { STORAGE_PROVIDER } from '../files/storage/storage-provider';
+
+describe('SharesService', () => {
+  const file = { id: 'f1', filename: 'files/f1.mp4', originalName: 'clip.mp4', mimeType: 'video/mp4', size: '42', hasAudio: true, uploadedAt: new Date(0), ownerId: 'o1', hash: 'h' } as unknown as FileEntity;
+  let share: Partial<ShareEntity>;
+  let shareUpdate: jest.Mock;
+  let getSignedUrl: jest.Mock;
+  let service: SharesService;
+
+  beforeEach(async () => {
+    share = { id: 's1', token: 'tok', ownerId: 'o1', fileId: 'f1', collectionId: null, expiresAt: null, passwordHash: null, allowDownload: false };
+    shareUpdate = jest.fn();
+    getSignedUrl = jest.fn(async (key: string, _ttl: number, downloadName?: string) => `https://s3/${key}${downloadName ? '?download' : ''}`);
+    const module = await Test.createTestingModule({
+      providers: [
+        SharesService,
+        { provide: getRepositoryToken(ShareEntity), useValue: { findOne: async ({ where }: any) => (where.token === share.token ? share : null), update: shareUpdate } },
+        { provide: getRepositoryToken(FileEntity), useValue: { findOne: async () => file } },
+        { provide: getRepositoryToken(CollectionEntity), useValue: {} },
+        { provide: getRepositoryToken(CollectionItemEntity), useValue: {} },
+        { provide: STORAGE_PROVIDER, useValue: { getSignedUrl } },
+      ],
+    }).compile();
+    service = module.get(SharesService);
+  });
+
+  it('returns public metadata with short-lived URLs and counts the view', async () => {
+    const content = await service.openShare('tok');
+    expect(content).toMatchObject({ type: 'file', file: { id: 'f1', size: 42, url: 'https://s3/files/f1.mp4' } });
+    expect(content.type === 'file' && content.file).not.toHaveProperty('ownerId');
+    expect(content.type === 'file' && content.file.downloadUrl).toBeUndefined();
+    expect(getSignedUrl).toHaveBeenCalledWith('files/f1.mp4', 900);
+    expect(shareUpdate).toHaveBeenCalledWith('s1', expect.objectContaining({ viewCount: expect.any(Function) }));
+  });
+
+  it('refuses expired, unknown and password-protected shares without the right password', async () => {
+    await expect(service.openShare('nope')).rejects.toMatchObject({ status: 404 });
+    share.passwordHash = await bcrypt.hash('secret', 4);
+    await expect(service.openShare('tok')).rejects.toMatchObject({ status: 401 });
+    await expect(service.openShare('tok', 'wrong')).rejects.toMatchObject({ status: 401 });
+    await expect(service.openShare('tok', 'secret')).resolves.toMatchObject({ type: 'file' });
+    share.expiresAt = new Date(Date.now() - 1000);
+    await expect(service.openShare('tok', 'secret')).rejects.toMatchObject({ status: 410 });
+    expect(shareUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('points shares without downloads at the playback rendition when there is one', async () => {
+    file.mp4Key = 'mp4/f1.mp4';
+    try {
+      const content = await service.openShare('tok');
+      expect(content.type === 'file' && content.file.url).toBe('https://s3/mp4/f1.mp4');
+      expect(getSignedUrl).not.toHaveBeenCalledWith('files/f1.mp4', expect.anything());
+    } finally {
+      file.mp4Key = null;
+    }
+  });
+
+  it('adds a download URL only when the owner allowed it', async () => {
+    share.allowDownload = true;
+    const content = await service.openShare('tok');
+    expect(content.type === 'file' && content.file.downloadUrl).toBe('https://s3/files/f1.mp4?download');
+  });
+});
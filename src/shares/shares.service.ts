@@ -0,0 +1,195 @@
+import { Injectable, Inject, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
+import { ShareEntity } from './entities/share.entity';
+import { FileEntity } from '../files/entities/file.entity';
+import { CollectionEntity } from '../collections/entities/collection.entity';
+import { CollectionItemEntity } from '../collections/entities/collection-item.entity';
+import { STORAGE_PROVIDER } from '../files/storage/storage-provider';
+import type { StorageProvider } from '../files/storage/storage-provider';
+
+export interface ShareOptions {
+  expiresAt?: Date | null;
+  password?: string | null;
+  // Offers a download link for the original. Without it viewers get the MP4 playback rendition where one exists,
+  // but a file without a rendition (images, videos that play as uploaded) is still served from its original object,
+  // so this is not an access control
+  allowDownload?: boolean;
+}
+
+export interface ShareRecord {
+  id: string;
+  token: string;
+  path: string;
+  fileId: string | null;
+  collectionId: string | null;
+  expiresAt: string | null;
+  hasPassword: boolean;
+  allowDownload: boolean;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+}
+
+// What an anonymous viewer gets to see of a file: no owner, hashes or fingerprints
+export interface SharedFile {
+  id: string;
+  title: string | null;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  durationMs: number | null;
+  hasAudio: boolean;
+  uploadedAt: string;
+  // The playback rendition on shares without downloads when the file has one, otherwise the original
+  url: string;
+  mp4Url?: string;
+  thumbnailUrl?: string;
+  // Only when the owner allowed downloads
+  downloadUrl?: string;
+}
+
+export type SharedContent =
+  | { type: 'file'; expiresAt: string | null; allowDownload: boolean; file: SharedFile }
+  | { type: 'collection'; expiresAt: string | null; allowDownload: boolean; collection: { name: string; description: string | null; items: SharedFile[] } };
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+@Injectable()
+export class SharesService {
+  // Presigned URLs handed to viewers are short-lived; reloading the share page issues fresh ones
+  private static readonly SHARED_URL_TTL_SECONDS = 15 * 60;
+
+  constructor(
+    @InjectRepository(ShareEntity)
+    private readonly shareRepository: Repository<ShareEntity>,
+    @InjectRepository(FileEntity)
+    private readonly fileRepository: Repository<FileEntity>,
+    @InjectRepository(CollectionEntity)
+    private readonly collectionRepository: Repository<CollectionEntity>,
+    @InjectRepository(CollectionItemEntity)
+    private readonly itemRepository: Repository<CollectionItemEntity>,
+    @Inject(STORAGE_PROVIDER)
+    private readonly storage: StorageProvider,
+  ) {}
+
+  async shareFile(fileId: string, ownerId: string, options: ShareOptions): Promise<ShareRecord> {
+    const file = UUID.test(fileId) ? await this.fileRepository.findOne({ where: { id: fileId, ownerId } }) : null;
+    if (!file) throw new HttpException('File not found', HttpStatus.NOT_FOUND);
+    return await this.createShare(ownerId, { fileId }, options);
+  }
+
+  async shareCollection(collectionId: string, ownerId: string, options: ShareOptions): Promise<ShareRecord> {
+    const collection = UUID.test(collectionId) ? await this.collectionRepository.findOne({ where: { id: collectionId, ownerId } }) : null;
+    if (!collection) throw new HttpException('Collection not found', HttpStatus.NOT_FOUND);
+    return await this.createShare(ownerId, { collectionId }, options);
+  }
+
+  async listShares(ownerId: string, filter: { fileId?: string; collectionId?: string } = {}): Promise<ShareRecord[]> {
+    const shares = await this.shareRepository.find({
+      where: { ownerId, ...(filter.fileId ? { fileId: filter.fileId } : {}), ...(filter.collectionId ? { collectionId: filter.collectionId } : {}) },
+      order: { createdAt: 'DESC' },
+    });
+    return shares.map((s) => this.toRecord(s));
+  }
+
+  async revokeShare(id: string, ownerId: string): Promise<void> {
+    const share = UUID.test(id) ? await this.shareRepository.findOne({ where: { id, ownerId } }) : null;
+    if (!share) throw new HttpException('Share not found', HttpStatus.NOT_FOUND);
+    await this.shareRepository.delete(share.id);
+  }
+
+  // Public lookup; every successful view is counted
+  async openShare(token: string, password?: string): Promise<SharedContent> {
+    const share = token ? await this.shareRepository.findOne({ where: { token } }) : null;
+    if (!share) throw new HttpException('Share not found', HttpStatus.NOT_FOUND);
+    if (share.expiresAt && share.expiresAt.getTime() <= Date.now()) throw new HttpException('Share link has expired', HttpStatus.GONE);
+    if (share.passwordHash) {
+      if (!password) throw new HttpException({ statusCode: HttpStatus.UNAUTHORIZED, message: 'Password required', passwordRequired: true }, HttpStatus.UNAUTHORIZED);
+      if (!(await bcrypt.compare(password, share.passwordHash))) {
+        throw new HttpException({ statusCode: HttpStatus.UNAUTHORIZED, message: 'Incorrect password', passwordRequired: true }, HttpStatus.UNAUTHORIZED);
+      }
+    }
+
+    let content: SharedContent;
+    const common = { expiresAt: share.expiresAt?.toISOString() ?? null, allowDownload: share.allowDownload };
+    if (share.fileId) {
+      const file = await this.fileRepository.findOne({ where: { id: share.fileId } });
+      if (!file) throw new HttpException('Share not found', HttpStatus.NOT_FOUND);
+      content = { type: 'file', ...common, file: await this.toSharedFile(file, share.allowDownload) };
+    } else {
+      const collection = share.collectionId ? await this.collectionRepository.findOne({ where: { id: share.collectionId } }) : null;
+      if (!collection) throw new HttpException('Share not found', HttpStatus.NOT_FOUND);
+      const items = await this.itemRepository.find({ where: { collectionId: collection.id }, relations: { file: true }, order: { position: 'ASC' } });
+      const files = items.map((i) => i.file).filter((f): f is FileEntity => !!f);
+      content = {
+        type: 'collection',
+        ...common,
+        collection: {
+          name: collection.name,
+          description: collection.description ?? null,
+          items: await Promise.all(files.map((f) => this.toSharedFile(f, share.allowDownload))),
+        },
+      };
+    }
+    // Incremented in SQL so concurrent views aren't lost
+    await this.shareRepository.update(share.id, { viewCount: () => '"viewCount" + 1', lastViewedAt: new Date() });
+    return content;
+  }
+
+  private async createShare(ownerId: string, target: { fileId?: string; collectionId?: string }, options: ShareOptions): Promise<ShareRecord> {
+    if (options.expiresAt && options.expiresAt.getTime() <= Date.now()) throw new HttpException('expiresAt must be in the future', HttpStatus.BAD_REQUEST);
+    const share = await this.shareRepository.save(this.shareRepository.create({
+      ownerId,
+      fileId: target.fileId ?? null,
+      collectionId: target.collectionId ?? null,
+      // 192 bits from the CSPRNG, so tokens can't be guessed or enumerated
+      token: crypto.randomBytes(24).toString('base64url'),
+      expiresAt: options.expiresAt ?? null,
+      passwordHash: options.password ? await bcrypt.hash(options.password, 10) : null,
+      allowDownload: options.allowDownload ?? false,
+    }));
+    return this.toRecord(share);
+  }
+
+  private async toSharedFile(file: FileEntity, allowDownload: boolean): Promise<SharedFile> {
+    const ttl = SharesService.SHARED_URL_TTL_SECONDS;
+    return {
+      id: file.id,
+      title: file.title ?? null,
+      originalName: file.originalName,
+      mimeType: file.mimeType,
+      // bigint columns come back from pg as strings
+      size: Number(file.size),
+      width: file.width ?? null,
+      height: file.height ?? null,
+      durationMs: file.durationMs != null ? Number(file.durationMs) : null,
+      hasAudio: file.hasAudio,
+      uploadedAt: file.uploadedAt.toISOString(),
+      url: await this.storage.getSignedUrl(!allowDownload && file.mp4Key ? file.mp4Key : file.filename, ttl),
+      mp4Url: file.mp4Key ? await this.storage.getSignedUrl(file.mp4Key, ttl) : undefined,
+      thumbnailUrl: file.thumbnailUrl ? await this.storage.getSignedUrl(`thumbnails/${file.id}.jpg`, ttl) : undefined,
+      downloadUrl: allowDownload ? await this.storage.getSignedUrl(file.filename, ttl, file.originalName || 'download') : undefined,
+    };
+  }
+
+  private toRecord(share: ShareEntity): ShareRecord {
+    return {
+      id: share.id,
+      token: share.token,
+      path: `/s/${share.token}`,
+      fileId: share.fileId ?? null,
+      collectionId: share.collectionId ?? null,
+      expiresAt: share.expiresAt?.toISOString() ?? null,
+      hasPassword: !!share.passwordHash,
+      allowDownload: share.allowDownload,
+      viewCount: share.viewCount ?? 0,
+      lastViewedAt: share.lastViewedAt?.toISOString() ?? null,
+      createdAt: share.createdAt.toISOString(),
+    };
+  }
+}